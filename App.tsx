@@ -1,19 +1,30 @@
 // App.tsx
-import React, { useEffect, useState } from "react";
-import { NavigationContainer } from "@react-navigation/native";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { NavigationContainer, useNavigation } from "@react-navigation/native";
 import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import { createBottomTabNavigator } from "@react-navigation/bottom-tabs";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { useTranslation } from 'react-i18next';
-import { View, Text } from "react-native";
+import { View, Text, AppState, Alert } from "react-native";
 import { MaterialIcons } from '@expo/vector-icons';
 import LoadingSpinner from "./src/components/LoadingSpinner";
+import NotificationsBell from "./src/components/NotificationsBell";
 
 import { AuthProvider, useAuth } from "./src/contexts";
-import { MapScreen, ListScreen, FavoritesScreen, DetailsScreen, LoginScreen, SignupScreen, ProfileScreen, ForgotPasswordScreen, EmailVerificationScreen } from "./src/screens";
-import { UserService } from "./src/services";
+import { MapScreen, ListScreen, RouteScreen, HistoryScreen, WhatsNewScreen, NotificationsScreen, FavoritesScreen, DetailsScreen, LoginScreen, SignupScreen, ProfileScreen, ForgotPasswordScreen, EmailVerificationScreen } from "./src/screens";
+import { UserService, StationReportsService, AppNotification } from "./src/services";
 import { eventEmitter, EVENTS } from "./src/utils/eventEmitter";
 import { initializeLanguage } from "./src/utils/i18n";
+import { hydrateStationsQuery } from "./src/api/stationCache";
+import { subscribeToStationStatuses } from "./src/api/statusProvider";
+import { useActiveVehicle, useFavoriteAlerts, useNewStationAlerts } from "./src/hooks";
+import { useFilters } from "./src/store/filters";
+import { createLinking, linkAction, takePendingLink } from "./src/utils/deepLinks";
+
+// Notifications arriving this close together are announced in one alert
+const NOTIFICATION_ALERT_DELAY_MS = 1500;
+// Notifications listed in a combined alert; the rest are in the inbox
+const NOTIFICATION_ALERT_LINES = 3;
 
 const Stack = createNativeStackNavigator();
 const Tab = createBottomTabNavigator();
@@ -31,6 +42,84 @@ function MainTabs() {
   const { user, isGuest } = useAuth();
   const { t } = useTranslation();
   const [userProfile, setUserProfile] = useState<any>(null);
+  const { activeVehicle } = useActiveVehicle();
+  const setFilterVehicle = useFilters(s => s.setVehicle);
+  const navigation = useNavigation<any>();
+
+  useFavoriteAlerts();
+  useNewStationAlerts();
+
+  // Open the link that was followed before signing in or choosing guest mode
+  useEffect(() => {
+    const url = takePendingLink();
+    const action = url ? linkAction(url) : undefined;
+    if (action) navigation.dispatch(action);
+  }, [navigation]);
+
+  // Local notifications show in-app while the app is open, one alert for everything
+  // that arrives together; the inbox keeps them all
+  useEffect(() => {
+    let pending: AppNotification[] = [];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const showAlert = () => {
+      const notifications = pending;
+      pending = [];
+      timer = undefined;
+
+      const [first] = notifications;
+      if (notifications.length === 1) {
+        const stationId = first.stationId;
+        Alert.alert(first.title, first.body, stationId
+          ? [
+            { text: t('common.close'), style: 'cancel' },
+            { text: t('favoriteAlerts.viewStation'), onPress: () => navigation.navigate('Details', { id: stationId }) }
+          ]
+          : undefined
+        );
+        return;
+      }
+
+      const lines = notifications.slice(0, NOTIFICATION_ALERT_LINES).map((n) => `${n.title}: ${n.body}`);
+      const more = notifications.length - lines.length;
+      if (more > 0) lines.push(t('notifications.more', { count: more }));
+      Alert.alert(t('notifications.batchTitle', { count: notifications.length }), lines.join('\n'), [
+        { text: t('common.close'), style: 'cancel' },
+        { text: t('notifications.viewAll'), onPress: () => navigation.navigate('Notifications') }
+      ]);
+    };
+
+    const handleNotifications = (notifications: AppNotification[]) => {
+      pending.push(...notifications);
+      timer ??= setTimeout(showAlert, NOTIFICATION_ALERT_DELAY_MS);
+    };
+
+    eventEmitter.on(EVENTS.NOTIFICATIONS_RECEIVED, handleNotifications);
+    return () => {
+      eventEmitter.off(EVENTS.NOTIFICATIONS_RECEIVED, handleNotifications);
+      if (timer) clearTimeout(timer);
+    };
+  }, [navigation, t]);
+
+  // Compatibility filters follow the vehicle selected on the profile
+  useEffect(() => {
+    setFilterVehicle(activeVehicle);
+  }, [activeVehicle, setFilterVehicle]);
+
+  // Send station reports queued while offline, on sign-in and whenever the app comes back
+  useEffect(() => {
+    if (!user || isGuest) return;
+    const flush = () => {
+      StationReportsService.flushQueue().catch((error) => {
+        console.error('Error flushing station reports:', error);
+      });
+    };
+    flush();
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') flush();
+    });
+    return () => subscription.remove();
+  }, [user, isGuest]);
 
   // Load user profile for initials
   const loadProfile = async () => {
@@ -116,11 +205,33 @@ function MainTabs() {
           )
         }} 
       />
+      <Tab.Screen 
+        name="Route" 
+        component={RouteScreen} 
+        options={{ 
+          title: t('navigation.route'),
+          tabBarIcon: ({ color, size }) => (
+            <MaterialIcons name="alt-route" size={size} color={color} />
+          )
+        }} 
+      />
+      <Tab.Screen 
+        name="WhatsNew" 
+        component={WhatsNewScreen} 
+        options={{ 
+          title: t('navigation.whatsNew'),
+          headerRight: () => <NotificationsBell onPress={() => navigation.navigate('Notifications')} />,
+          tabBarIcon: ({ color, size }) => (
+            <MaterialIcons name="fiber-new" size={size} color={color} />
+          )
+        }} 
+      />
       <Tab.Screen 
         name="Favorites" 
         component={FavoritesScreen} 
         options={{ 
           title: t('navigation.favorites'),
+          headerRight: () => <NotificationsBell onPress={() => navigation.navigate('Notifications')} />,
           tabBarIcon: ({ color, size }) => (
             <MaterialIcons name="favorite" size={size} color={color} />
           )
@@ -143,6 +254,8 @@ function MainTabs() {
 function AppContent() {
   const { user, loading, isGuest, isEmailVerified } = useAuth();
   const { t } = useTranslation();
+  const canOpenLinks = useRef(false);
+  const linking = useMemo(() => createLinking(() => canOpenLinks.current), []);
 
   if (loading) {
     return <LoadingSpinner text={t('common.loading')} />;
@@ -154,8 +267,11 @@ function AppContent() {
   // Check if user needs email verification
   const needsEmailVerification = user && !isEmailVerified && !isGuest;
 
+  // Station and map links need the main stack; until then they are held
+  canOpenLinks.current = !!shouldShowMainApp;
+
   return (
-    <NavigationContainer>
+    <NavigationContainer linking={linking}>
       <Stack.Navigator>
         {!shouldShowMainApp && !needsEmailVerification ? (
           <>
@@ -171,6 +287,8 @@ function AppContent() {
           <>
             <Stack.Screen name="Main" component={MainTabs} options={{ headerShown: false }} />
             <Stack.Screen name="Details" component={DetailsScreen} options={{ title: t('details.title') }} />
+            <Stack.Screen name="History" component={HistoryScreen} options={{ title: t('history.title') }} />
+            <Stack.Screen name="Notifications" component={NotificationsScreen} options={{ title: t('notifications.title') }} />
           </>
         )}
       </Stack.Navigator>
@@ -182,6 +300,10 @@ export default function App() {
   useEffect(() => {
     // Initialize language on app start
     initializeLanguage();
+    // Show the last downloaded stations while the network refresh runs
+    hydrateStationsQuery(queryClient);
+    // Live connector statuses pushed by the provider, if it supports it
+    return subscribeToStationStatuses(queryClient);
   }, []);
 
   return (
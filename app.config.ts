@@ -1,4 +1,8 @@
 import type { ConfigContext, ExpoConfig } from "expo/config";
+
+// Universal/app links (https://<host>/station/:id); the host must serve the matching association files
+const linkHost = process.env.EXPO_PUBLIC_LINK_HOST;
+
 export default ({ config }: ConfigContext): ExpoConfig => ({
   name: config.name ?? "ev-charger-map-cy",
   slug: config.slug ?? "ev-charger-map-cy",
@@ -6,6 +10,7 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
   ios: {
     ...(config.ios ?? {}),
     bundleIdentifier: "com.evchargermapcy.cyprus",
+    ...(linkHost ? { associatedDomains: [`applinks:${linkHost}`] } : {}),
     config: {
       googleMapsApiKey: process.env.MAPS_IOS_KEY
     },
@@ -23,6 +28,14 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
         apiKey: process.env.MAPS_ANDROID_KEY
       },
     },
-    package: "com.evchargermapcy.cyprus"
+    package: "com.evchargermapcy.cyprus",
+    ...(linkHost ? {
+      intentFilters: [{
+        action: "VIEW",
+        autoVerify: true,
+        data: [{ scheme: "https", host: linkHost, pathPrefix: "/station" }, { scheme: "https", host: linkHost, pathPrefix: "/map" }],
+        category: ["BROWSABLE", "DEFAULT"]
+      }]
+    } : {})
   }
 });
@@ -0,0 +1,54 @@
+import type { Connection, Station } from "../types/ocm";
+import type { VehicleProfile } from "../services/userService";
+
+// Minimal valid records for tests; override only what a case is about
+
+export function makeConnection(overrides: Partial<Connection> = {}): Connection {
+  return {
+    type: "Type 2 (Socket Only)",
+    connectorType: "Type2Socket",
+    powerKW: 22,
+    current: "AC (Three-Phase)",
+    status: "Operational",
+    quantity: 1,
+    ...overrides,
+  };
+}
+
+export function makeStation(overrides: Partial<Station> = {}): Station {
+  return {
+    ID: "1",
+    UUID: "uuid-1",
+    title: { en: "Test Station", el: "Σταθμός" },
+    latitude: 34.7071,
+    longitude: 33.0226,
+    address: { en: "1 Test Street", el: "Οδός 1" },
+    postcode: 3000,
+    town: { en: "Limassol", el: "Λεμεσός" },
+    district: { en: "Limassol", el: "Λεμεσός" },
+    operator: "EAC",
+    connections: [makeConnection()],
+    number_of_points: 1,
+    usage_cost: "Unknown",
+    tariff: null,
+    related_url: "",
+    confirmed: true,
+    last_seen: "2025-06-01T00:00:00.000Z",
+    status: "active",
+    ...overrides,
+  };
+}
+
+export function makeVehicle(overrides: Partial<VehicleProfile> = {}): VehicleProfile {
+  return {
+    id: "car-1",
+    make: "Test",
+    model: "EV",
+    batteryKWh: 60,
+    connectorTypes: ["CCS2", "Type2Socket"],
+    maxACKW: 11,
+    maxDCKW: 100,
+    efficiencyKWhPer100Km: 16,
+    ...overrides,
+  };
+}
@@ -0,0 +1,120 @@
+import { CYPRUS_BBOX, fetchOcmStations, isDuplicateStation, isSameOperator, loadBundledStations, type HttpClient } from "../api";
+import { aggregateStations } from "../stationAggregator";
+import { makeStation } from "../../__fixtures__/stations";
+import pois from "../__fixtures__/ocm/poi-cyprus.json";
+
+const replay = (data: unknown): HttpClient & { get: jest.Mock } => ({ get: jest.fn(async () => ({ data })) });
+
+describe("fetchOcmStations", () => {
+  it("asks for full POIs inside the Cyprus bounding box", async () => {
+    const client = replay([]);
+    await fetchOcmStations(client, "test-key");
+
+    const [url, config] = client.get.mock.calls[0];
+    expect(url).toMatch(/\/poi$/);
+    expect(config.params).toMatchObject({
+      boundingbox: `(${CYPRUS_BBOX.south},${CYPRUS_BBOX.west}),(${CYPRUS_BBOX.north},${CYPRUS_BBOX.east})`,
+      compact: false,
+      key: "test-key",
+    });
+  });
+
+  it("converts OCM POIs to stations", async () => {
+    const [eko, lidl, paralimni] = await fetchOcmStations(replay(pois), "test-key");
+
+    expect(eko).toMatchObject({
+      ID: "271043",
+      title: { en: "EKO Skarinou Service Station" },
+      address: { en: "Agiou Louka 7" },
+      postcode: 7731,
+      district: { en: "Larnaca" },
+      operator: "EKO (Hellenic Petroleum)",
+      related_url: "https://www.eko.com.cy",
+      number_of_points: 2,
+      confirmed: true,
+      last_seen: "2025-08-21T10:00:00Z",
+      status: "active",
+      tariff: expect.objectContaining({ pricePerKWh: 0.45 }),
+    });
+    expect(eko.connections).toEqual([
+      { type: "CCS (Type 2)", connectorType: "CCS2", powerKW: 50, current: "DC", status: "Operational", quantity: 1 },
+      {
+        type: "Type 2 (Socket Only)",
+        connectorType: "Type2Socket",
+        powerKW: 22,
+        current: "AC (Three-Phase)",
+        status: "Operational",
+        quantity: 2,
+      },
+    ]);
+
+    expect(lidl).toMatchObject({ postcode: 4048, district: { en: "Germasogeia" }, number_of_points: 1, confirmed: false });
+    expect(lidl.tariff).toMatchObject({ pricePerKWh: 0 });
+    expect(lidl.connections[0]).toMatchObject({ connectorType: "Type2Tethered", status: "Not Operational", quantity: 1 });
+
+    expect(paralimni).toMatchObject({
+      title: { en: "Makariou III Avenue 90" },
+      operator: "Unknown",
+      usage_cost: "Unknown",
+      tariff: null,
+      status: "inactive",
+      last_seen: new Date(0).toISOString(),
+    });
+    // Without a current type, OCM's fast-charge level means DC
+    expect(paralimni.connections[0]).toMatchObject({ connectorType: "Unknown", powerKW: 0, current: "DC" });
+  });
+});
+
+describe("isSameOperator", () => {
+  it("matches brand names written differently", () => {
+    expect(isSameOperator("EKO", "EKO (Hellenic Petroleum)")).toBe(true);
+    expect(isSameOperator("EAC (Electricity Authority of Cyprus)", "EAC eCharge")).toBe(true);
+    expect(isSameOperator("Lidl", "LIDL Cyprus")).toBe(true);
+  });
+
+  it("gives unknown operators the benefit of the doubt", () => {
+    expect(isSameOperator("Unknown", "EKO")).toBe(true);
+    expect(isSameOperator("", "EKO")).toBe(true);
+  });
+
+  it("tells different operators apart", () => {
+    expect(isSameOperator("EKO", "Petrolina")).toBe(false);
+  });
+});
+
+describe("isDuplicateStation", () => {
+  const site = makeStation({ ID: "1", UUID: "a", operator: "EKO", latitude: 34.8153, longitude: 33.3608 });
+
+  it("matches on ID or UUID regardless of distance", () => {
+    expect(isDuplicateStation(site, makeStation({ ID: "1", UUID: "b", latitude: 35.1 }))).toBe(true);
+    expect(isDuplicateStation(site, makeStation({ ID: "2", UUID: "a", latitude: 35.1 }))).toBe(true);
+  });
+
+  it("matches a nearby station of the same operator", () => {
+    // About 35 m north
+    const nearby = makeStation({ ID: "2", UUID: "b", operator: "EKO Cyprus", latitude: 34.81561, longitude: 33.3608 });
+    expect(isDuplicateStation(site, nearby)).toBe(true);
+    expect(isDuplicateStation(site, nearby, 20)).toBe(false);
+  });
+
+  it("keeps a nearby station of another operator", () => {
+    const neighbour = makeStation({ ID: "2", UUID: "b", operator: "Petrolina", latitude: 34.81561, longitude: 33.3608 });
+    expect(isDuplicateStation(site, neighbour)).toBe(false);
+  });
+});
+
+describe("OCM stations alongside the bundled dataset", () => {
+  it("adds only the POIs the dataset does not have", async () => {
+    const bundled = loadBundledStations();
+    const ocm = await fetchOcmStations(replay(pois), "test-key");
+    const merged = aggregateStations([
+      { source: "backend", stations: bundled },
+      { source: "ocm", stations: ocm },
+    ]);
+
+    expect(merged).toHaveLength(bundled.length + 2);
+    const skarinou = merged.find((s) => s.ID === "460135");
+    expect(skarinou?.sources).toEqual(["backend", "ocm"]);
+    expect(merged.some((s) => s.ID === "271043")).toBe(false);
+  });
+});
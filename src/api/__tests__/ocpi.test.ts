@@ -0,0 +1,147 @@
+import { ZodError } from "zod";
+import { fetchAllPages, fetchOcpiStations, ocpiTariffSchema, parseOcpiLocations } from "../ocpi";
+import type { HttpClient } from "../api";
+import page1 from "../__fixtures__/ocpi/locations-page1.json";
+import page2 from "../__fixtures__/ocpi/locations-page2.json";
+import tariffs from "../__fixtures__/ocpi/tariffs.json";
+
+const LOCATIONS_URL = "https://cpo.example.com/ocpi/2.2/locations";
+const NEXT_URL = `${LOCATIONS_URL}?offset=2&limit=2`;
+const TARIFFS_URL = "https://cpo.example.com/ocpi/2.2/tariffs";
+
+// Replays the recorded pages, linking page 1 to page 2 the way OCPI paginates
+function recordedClient(): HttpClient & { get: jest.Mock } {
+  const responses: Record<string, { data: unknown; headers?: Record<string, string> }> = {
+    [LOCATIONS_URL]: { data: page1, headers: { link: `<${NEXT_URL}>; rel="next"` } },
+    [NEXT_URL]: { data: page2, headers: {} },
+    [TARIFFS_URL]: { data: tariffs },
+  };
+  return {
+    get: jest.fn(async (url: string) => {
+      if (!responses[url]) throw new Error(`Unexpected request: ${url}`);
+      return responses[url];
+    }),
+  };
+}
+
+describe("parseOcpiLocations", () => {
+  const stations = parseOcpiLocations([...page1.data, ...page2.data], tariffs);
+  const byId = new Map(stations.map((s) => [s.ID, s]));
+
+  it("converts every published location", () => {
+    expect(stations.map((s) => s.ID)).toEqual(["CY-EAC-LOC-LIM-001", "CY-EAC-LOC-PAF-007", "CY-EAC-LOC-LAR-003"]);
+  });
+
+  it("maps location fields onto the station", () => {
+    expect(byId.get("CY-EAC-LOC-LIM-001")).toMatchObject({
+      UUID: "LOC-LIM-001",
+      title: { en: "Limassol Marina", el: "Limassol Marina" },
+      latitude: 34.6701,
+      longitude: 33.0432,
+      postcode: 3601,
+      town: { en: "Limassol" },
+      district: { en: "Limassol" },
+      operator: "EAC eCharge",
+      related_url: "https://www.eac.com.cy",
+      number_of_points: 2,
+      status: "active",
+      // Latest of the location and its EVSEs
+      last_seen: "2025-09-02T10:30:00Z",
+    });
+  });
+
+  it("keeps one connection per EVSE connector, with EVSE status and power", () => {
+    expect(byId.get("CY-EAC-LOC-LIM-001")?.connections).toEqual([
+      {
+        type: "IEC_62196_T2_COMBO/CABLE",
+        connectorType: "CCS2",
+        powerKW: 150,
+        current: "DC",
+        status: "Operational",
+        quantity: 1,
+        evseId: "CY*EAC*E1001",
+        liveStatus: "Available",
+      },
+      expect.objectContaining({ connectorType: "CHAdeMO", powerKW: 62.5, evseId: "CY*EAC*E1001" }),
+      expect.objectContaining({
+        connectorType: "Type2Socket",
+        powerKW: 22.1,
+        current: "AC (Three-Phase)",
+        status: "Operational",
+        evseId: "CY*EAC*E1002",
+        liveStatus: "Occupied",
+      }),
+    ]);
+  });
+
+  it("falls back for optional fields", () => {
+    const paphos = byId.get("CY-EAC-LOC-PAF-007")!;
+    expect(paphos.title.en).toBe("Poseidonos Avenue 12");
+    expect(paphos.district.en).toBe("Paphos");
+    expect(paphos.postcode).toBe(0);
+    expect(paphos.operator).toBe("EAC");
+    expect(paphos.tariff).toBeNull();
+    expect(paphos.usage_cost).toBe("Unknown");
+    expect(paphos.connections[0]).toMatchObject({
+      connectorType: "Type2Tethered",
+      powerKW: 7.4,
+      status: "Not Operational",
+      evseId: "EVSE-7",
+      liveStatus: "OutOfOrder",
+    });
+  });
+
+  it("marks locations whose EVSEs were all removed as inactive", () => {
+    expect(byId.get("CY-EAC-LOC-LAR-003")?.status).toBe("inactive");
+  });
+
+  it("attaches the first tariff the connectors reference", () => {
+    expect(byId.get("CY-EAC-LOC-LIM-001")?.tariff).toEqual({
+      currency: "EUR",
+      pricePerKWh: 0.49,
+      sessionFee: 1,
+      windows: [{ start: "23:00", end: "07:00", pricePerKWh: 0.39 }],
+      raw: "€0.49/kWh + €1 session fee, €0.39/kWh 23:00-07:00",
+    });
+    expect(byId.get("CY-EAC-LOC-LIM-001")?.usage_cost).toBe("€0.49/kWh + €1 session fee, €0.39/kWh 23:00-07:00");
+  });
+
+  it("accepts payloads with or without the OCPI envelope", () => {
+    expect(parseOcpiLocations(page1).map((s) => s.ID)).toEqual(["CY-EAC-LOC-LIM-001"]);
+    expect(parseOcpiLocations(page1.data)).toHaveLength(1);
+  });
+
+  it("rejects invalid locations", () => {
+    const { coordinates, ...broken } = page1.data[0];
+    expect(() => parseOcpiLocations([broken])).toThrow(ZodError);
+  });
+});
+
+describe("ocpiTariffSchema", () => {
+  it("converts hourly time and parking prices to per minute", () => {
+    const [, ac] = tariffs.data;
+    expect(ocpiTariffSchema.parse(ac)).toEqual({
+      id: "TAR-AC",
+      tariff: { currency: "EUR", pricePerKWh: 0.35, idleFeePerMinute: 0.1, windows: [], raw: "" },
+    });
+  });
+});
+
+describe("fetchOcpiStations", () => {
+  it("follows the next links and sends the token", async () => {
+    const client = recordedClient();
+    const stations = await fetchOcpiStations(LOCATIONS_URL, TARIFFS_URL, "secret", client);
+
+    expect(stations).toHaveLength(3);
+    expect(client.get.mock.calls.map(([url]) => url).sort()).toEqual([LOCATIONS_URL, NEXT_URL, TARIFFS_URL].sort());
+    for (const [, config] of client.get.mock.calls) {
+      expect(config.headers).toEqual({ Authorization: "Token secret" });
+    }
+  });
+
+  it("stops after 50 pages when the server keeps linking", async () => {
+    const client = { get: jest.fn(async () => ({ data: { data: [] }, headers: { link: `<${NEXT_URL}>; rel="next"` } })) };
+    await expect(fetchAllPages(LOCATIONS_URL, undefined, client)).resolves.toEqual([]);
+    expect(client.get).toHaveBeenCalledTimes(50);
+  });
+});
@@ -0,0 +1,111 @@
+import { aggregateStations, independentSources } from "../stationAggregator";
+import { makeConnection, makeStation } from "../../__fixtures__/stations";
+
+const NOW = new Date("2025-09-01T00:00:00Z");
+
+// The same site as three feeds describe it
+const backend = makeStation({ ID: "460135", UUID: "backend-uuid", confirmed: false, last_seen: "2025-08-01T00:00:00Z" });
+const ocm = makeStation({
+  ID: "271043",
+  UUID: "ocm-uuid",
+  operator: "EAC eCharge",
+  latitude: backend.latitude + 0.0002,
+  usage_cost: "€0.45/kWh",
+  tariff: { currency: "EUR", pricePerKWh: 0.45, windows: [], raw: "€0.45/kWh" },
+  confirmed: false,
+  last_seen: "2025-08-15T00:00:00Z",
+});
+const ocpi = makeStation({
+  ID: "CY-EAC-1",
+  UUID: "ocpi-uuid",
+  connections: [makeConnection({ connectorType: "CCS2", current: "DC", powerKW: 150, liveStatus: "Available" })],
+  confirmed: false,
+  last_seen: "2025-08-20T00:00:00Z",
+});
+
+describe("aggregateStations", () => {
+  it("merges the feeds' records of one site and keeps our own ID", () => {
+    const [merged, ...rest] = aggregateStations(
+      [{ source: "ocm", stations: [ocm] }, { source: "ocpi", stations: [ocpi] }, { source: "backend", stations: [backend] }],
+      50,
+      NOW
+    );
+    expect(rest).toEqual([]);
+    expect(merged.ID).toBe("460135");
+    expect(merged.UUID).toBe("backend-uuid");
+    expect(merged.sources).toEqual(["ocpi", "backend", "ocm"]);
+    expect(merged.sourceUUIDs).toEqual(["backend-uuid", "ocpi-uuid", "ocm-uuid"]);
+    expect(merged.last_seen).toBe("2025-08-20T00:00:00Z");
+  });
+
+  it("takes each field from the best feed that has it, and records where from", () => {
+    const [merged] = aggregateStations(
+      [{ source: "backend", stations: [backend] }, { source: "ocpi", stations: [ocpi] }, { source: "ocm", stations: [ocm] }],
+      50,
+      NOW
+    );
+    expect(merged.connections).toEqual(ocpi.connections);
+    expect(merged.provenance?.connections).toEqual({ source: "ocpi", lastSeen: ocpi.last_seen });
+    // Only OCM knows the price
+    expect(merged.tariff).toEqual(ocm.tariff);
+    expect(merged.provenance?.pricing?.source).toBe("ocm");
+  });
+
+  it("lets a fresh record beat a stale higher-priority one", () => {
+    const stale = { ...ocpi, last_seen: "2025-01-01T00:00:00Z" };
+    const [merged] = aggregateStations(
+      [{ source: "ocpi", stations: [stale] }, { source: "backend", stations: [backend] }],
+      50,
+      NOW
+    );
+    expect(merged.provenance?.connections?.source).toBe("backend");
+  });
+
+  it("confirms a site two independent feeds report", () => {
+    const [merged] = aggregateStations(
+      [{ source: "backend", stations: [backend] }, { source: "ocm", stations: [ocm] }],
+      50,
+      NOW
+    );
+    expect(merged.confirmed).toBe(true);
+  });
+
+  it("does not count the bundled snapshot as a second source", () => {
+    const [merged] = aggregateStations(
+      [{ source: "backend", stations: [backend] }, { source: "bundled", stations: [backend], mergeOnly: true }],
+      50,
+      NOW
+    );
+    expect(merged.sources).toEqual(["backend", "bundled"]);
+    expect(merged.confirmed).toBe(false);
+  });
+
+  it("trusts one feed's confirmed flag only while it is recent", () => {
+    const recent = { ...backend, confirmed: true };
+    const old = { ...backend, confirmed: true, last_seen: "2024-12-01T00:00:00Z" };
+    expect(aggregateStations([{ source: "backend", stations: [recent] }], 50, NOW)[0].confirmed).toBe(true);
+    expect(aggregateStations([{ source: "backend", stations: [old] }], 50, NOW)[0].confirmed).toBe(false);
+  });
+
+  it("never merges two stations of the same feed", () => {
+    const neighbour = { ...backend, ID: "2", UUID: "neighbour" };
+    expect(aggregateStations([{ source: "backend", stations: [backend, neighbour] }], 50, NOW)).toHaveLength(2);
+  });
+
+  it("only fills in stations from merge-only feeds", () => {
+    const elsewhere = makeStation({ ID: "9", UUID: "elsewhere", latitude: 35.1 });
+    const merged = aggregateStations(
+      [{ source: "backend", stations: [backend] }, { source: "bundled", stations: [backend, elsewhere], mergeOnly: true }],
+      50,
+      NOW
+    );
+    expect(merged.map((s) => s.ID)).toEqual(["460135"]);
+  });
+});
+
+describe("independentSources", () => {
+  it("leaves out the bundled snapshot", () => {
+    expect(independentSources(["backend", "bundled"])).toEqual(["backend"]);
+    expect(independentSources(undefined)).toEqual([]);
+  });
+});
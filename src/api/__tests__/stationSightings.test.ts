@@ -0,0 +1,56 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  NEW_STATION_WINDOW_DAYS,
+  readStationSightings,
+  recentlyAddedStations,
+  recordStationSightings,
+} from "../stationSightings";
+import { makeStation } from "../../__fixtures__/stations";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date("2025-09-01T00:00:00Z");
+
+const a = makeStation({ ID: "1", UUID: "a" });
+const b = makeStation({ ID: "2", UUID: "b" });
+const c = makeStation({ ID: "3", UUID: "c" });
+
+beforeEach(() => AsyncStorage.clear());
+
+describe("recordStationSightings", () => {
+  it("takes the first refresh as the baseline and reports later additions", async () => {
+    const first = await recordStationSightings([a, b], true, NOW);
+    expect(first.added).toEqual([]);
+    expect(first.sightings.firstSeen).toEqual({ "1": null, "2": null });
+
+    const later = new Date(NOW.getTime() + DAY);
+    const second = await recordStationSightings([a, b, c], true, later);
+    expect(second.added).toEqual([c]);
+    expect(second.sightings.firstSeen["3"]).toBe(later.toISOString());
+    expect(await readStationSightings()).toEqual(second.sightings);
+  });
+
+  it("does not seed the baseline from data that may not", async () => {
+    const refused = await recordStationSightings([a], false, NOW);
+    expect(refused.added).toEqual([]);
+    expect(await readStationSightings()).toEqual({ firstSeen: {} });
+
+    // The network refresh that follows is the baseline, so b is not news
+    const seeded = await recordStationSightings([a, b], true, NOW);
+    expect(seeded.added).toEqual([]);
+    expect(seeded.sightings.firstSeen).toEqual({ "1": null, "2": null });
+  });
+});
+
+describe("recentlyAddedStations", () => {
+  it("lists stations first seen within the feed window, newest first", () => {
+    const daysAgo = (days: number) => new Date(NOW.getTime() - days * DAY).toISOString();
+    const sightings = {
+      firstSeen: { "1": null, "2": daysAgo(NEW_STATION_WINDOW_DAYS + 1), "3": daysAgo(10), "4": daysAgo(2) },
+    };
+    const d = makeStation({ ID: "4", UUID: "d" });
+
+    const recent = recentlyAddedStations(sightings, [a, b, c, d], NOW);
+    expect(recent.map((entry) => entry.station.ID)).toEqual(["4", "3"]);
+    expect(recent[1].firstSeen).toEqual(new Date(daysAgo(10)));
+  });
+});
@@ -0,0 +1,39 @@
+import { mergeStationStatuses, type StationStatus } from "../statusProvider";
+import { aggregateStations } from "../stationAggregator";
+import { makeConnection, makeStation } from "../../__fixtures__/stations";
+
+const ccs = makeConnection({ connectorType: "CCS2", current: "DC", powerKW: 50 });
+const type2 = makeConnection();
+
+const status = (UUID: string, connectors: StationStatus["connectors"]): StationStatus => ({
+  UUID,
+  connectors,
+  updatedAt: "2025-09-01T10:00:00Z",
+});
+
+describe("mergeStationStatuses", () => {
+  const station = makeStation({ UUID: "uuid-1", connections: [ccs, type2] });
+
+  it("overlays statuses by position, then by connector type", () => {
+    const [merged] = mergeStationStatuses([station], [
+      status("uuid-1", [{ index: 0, status: "Occupied" }, { connectorType: "Type2Socket", status: "Available" }]),
+    ]);
+    expect(merged.statusUpdatedAt).toBe("2025-09-01T10:00:00Z");
+    expect(merged.connections.map((c) => c.liveStatus)).toEqual(["Occupied", "Available"]);
+  });
+
+  it("leaves stations without a status untouched", () => {
+    const [merged] = mergeStationStatuses([station], [status("other", [{ index: 0, status: "Occupied" }])]);
+    expect(merged).toBe(station);
+  });
+
+  it("keeps matching an OCPI location after it was merged with our own station", () => {
+    const backend = makeStation({ ID: "460135", UUID: "backend-uuid", connections: [ccs] });
+    const ocpi = makeStation({ ID: "CY-EAC-LOC-1", UUID: "LOC-1", connections: [ccs], last_seen: "2025-08-01T00:00:00Z" });
+    const [merged] = aggregateStations([{ source: "backend", stations: [backend] }, { source: "ocpi", stations: [ocpi] }]);
+    expect(merged.UUID).toBe("backend-uuid");
+
+    const [live] = mergeStationStatuses([merged], [status("LOC-1", [{ connectorType: "CCS2", status: "OutOfOrder" }])]);
+    expect(live.connections[0].liveStatus).toBe("OutOfOrder");
+  });
+});
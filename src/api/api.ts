@@ -1,8 +1,28 @@
 import axios from "axios";
 import { z } from "zod";
 import type { Station } from "../types/ocm";
+import { normalizeConnectorType } from "../utils/connectors";
+import { parseTariff } from "../utils/tariff";
+import { haversineDistanceMeters } from "../utils/geo";
 import localStations from "../../assets/charging_points.json";
 
+const tariffSchema = z.object({
+  currency: z.string().default("EUR"),
+  pricePerKWh: z.number().optional(),
+  pricePerMinute: z.number().optional(),
+  sessionFee: z.number().optional(),
+  idleFeePerMinute: z.number().optional(),
+  windows: z.array(z.object({
+    start: z.string(),
+    end: z.string(),
+    pricePerKWh: z.number().optional(),
+    pricePerMinute: z.number().optional(),
+  })).default([]),
+  raw: z.string().default(""),
+});
+
+const sourceIdSchema = z.enum(["ocpi", "backend", "ocm", "bundled"]);
+
 const stationSchema: z.ZodType<Station> = z.object({
   ID: z.string(),
   UUID: z.string(),
@@ -20,27 +40,179 @@ const stationSchema: z.ZodType<Station> = z.object({
     current: z.string(),
     status: z.string(),
     quantity: z.number(),
-  })),
+    evseId: z.string().optional(),
+  }).transform((c) => ({ ...c, connectorType: normalizeConnectorType(c.type) }))),
   number_of_points: z.number(),
-  usage_cost: z.string().default("Unknown"), // TODO: Change to number
+  usage_cost: z.string().default("Unknown"),
+  // Structured pricing when the backend sends it, otherwise parsed from usage_cost
+  tariff: tariffSchema.nullish(),
   related_url: z.string().default(""),
   confirmed: z.boolean(),
   last_seen: z.string(),
-  status: z.string()
+  status: z.string(),
+  // Written by the aggregator; kept through the on-device cache
+  sources: z.array(sourceIdSchema).optional(),
+  sourceUUIDs: z.array(z.string()).optional(),
+  provenance: z.partialRecord(
+    z.enum(["title", "address", "location", "operator", "connections", "pricing", "link"]),
+    z.object({ source: sourceIdSchema, lastSeen: z.string() })
+  ).optional(),
+}).transform((s) => ({ ...s, tariff: s.tariff ?? parseTariff(s.usage_cost) }));
+
+export const stationsSchema = z.array(stationSchema);
+
+const stationChangesSchema = z.object({
+  added: stationsSchema.default([]),
+  updated: stationsSchema.default([]),
+  removed: z.array(z.string()).default([]), // IDs or UUIDs
 });
 
-const stationsSchema = z.array(stationSchema);
+export type StationChanges = z.infer<typeof stationChangesSchema>;
 
 // Configure your backend URL via env
 const BASE_URL = process.env.EXPO_PUBLIC_API_BASE ?? "http://localhost:8000";
 
+// Opt in to delta downloads once the backend serves /stations/sync
+export const SYNC_ENABLED = process.env.EXPO_PUBLIC_API_SYNC === "true";
+
+// Throws when the backend is unreachable or returns invalid data
 export async function fetchStations(): Promise<Station[]> {
-  try {
-    const { data } = await axios.get(`${BASE_URL}/stations`, { timeout: 12000 });
-    return stationsSchema.parse(data);
-  } catch {
-    // local fallback
-    const local = require("../../assets/charging_points.json");
-    return stationsSchema.parse(local);
-  }
+  const { data } = await axios.get(`${BASE_URL}/stations`, { timeout: 12000 });
+  return stationsSchema.parse(data);
+}
+
+// Changes since the given last_seen watermark
+export async function fetchStationChanges(since: string): Promise<StationChanges> {
+  const { data } = await axios.get(`${BASE_URL}/stations/sync`, {
+    params: { since },
+    timeout: 12000
+  });
+  return stationChangesSchema.parse(data);
+}
+
+// Snapshot bundled with the app, used when nothing better is available
+export function loadBundledStations(): Station[] {
+  return stationsSchema.parse(localStations);
+}
+
+// Anything with an axios-style get; lets tests replay recorded responses
+export type HttpClient = {
+  get(
+    url: string,
+    config?: { params?: Record<string, unknown>; headers?: Record<string, string>; timeout?: number }
+  ): Promise<{ data: unknown; headers?: Record<string, any> }>;
+};
+
+// Open Charge Map, enabled by providing an API key
+const OCM_BASE_URL = process.env.EXPO_PUBLIC_OCM_BASE ?? "https://api.openchargemap.io/v3";
+const OCM_API_KEY = process.env.EXPO_PUBLIC_OCM_API_KEY;
+export const OCM_ENABLED = !!OCM_API_KEY;
+
+// South-west and north-east corners around the island
+export const CYPRUS_BBOX = { south: 34.55, west: 32.25, north: 35.72, east: 34.6 };
+
+const ocmTitled = z.object({ Title: z.string().nullish() }).nullish();
+const ocmStatus = z.object({ Title: z.string().nullish(), IsOperational: z.boolean().nullish() }).nullish();
+
+const ocmPoiSchema = z.object({
+  ID: z.number(),
+  UUID: z.string(),
+  AddressInfo: z.object({
+    Title: z.string().nullish(),
+    AddressLine1: z.string().nullish(),
+    Town: z.string().nullish(),
+    StateOrProvince: z.string().nullish(),
+    Postcode: z.union([z.string(), z.number()]).nullish(),
+    Latitude: z.number(),
+    Longitude: z.number(),
+    RelatedURL: z.string().nullish(),
+  }),
+  OperatorInfo: z.object({ Title: z.string().nullish(), WebsiteURL: z.string().nullish() }).nullish(),
+  UsageCost: z.string().nullish(),
+  NumberOfPoints: z.number().nullish(),
+  StatusType: ocmStatus,
+  IsRecentlyVerified: z.boolean().nullish(),
+  DateLastVerified: z.string().nullish(),
+  DateLastStatusUpdate: z.string().nullish(),
+  Connections: z.array(z.object({
+    ConnectionType: ocmTitled,
+    Level: z.object({ Title: z.string().nullish(), IsFastChargeCapable: z.boolean().nullish() }).nullish(),
+    CurrentType: ocmTitled,
+    StatusType: ocmStatus,
+    PowerKW: z.number().nullish(),
+    Quantity: z.number().nullish(),
+  })).nullish(),
+}).transform((poi): Station => {
+  const text = (value: string | null | undefined) => ({ en: value ?? "", el: value ?? "" });
+  const address = poi.AddressInfo;
+  const usageCost = poi.UsageCost || "Unknown";
+  return {
+    ID: String(poi.ID),
+    UUID: poi.UUID,
+    title: text(address.Title ?? address.AddressLine1),
+    latitude: address.Latitude,
+    longitude: address.Longitude,
+    address: text(address.AddressLine1),
+    postcode: Number(address.Postcode) || 0,
+    town: text(address.Town),
+    district: text(address.StateOrProvince ?? address.Town),
+    operator: poi.OperatorInfo?.Title ?? "Unknown",
+    connections: (poi.Connections ?? []).map((c) => {
+      const type = c.ConnectionType?.Title ?? "Unknown";
+      return {
+        type,
+        connectorType: normalizeConnectorType(type),
+        powerKW: c.PowerKW ?? 0,
+        // Level 3 is OCM's DC fast charging level
+        current: c.CurrentType?.Title ?? (c.Level?.IsFastChargeCapable ? "DC" : "AC (Single-Phase)"),
+        status: c.StatusType?.Title ?? (c.StatusType?.IsOperational === false ? "Not Operational" : "Operational"),
+        quantity: c.Quantity ?? 1,
+      };
+    }),
+    number_of_points: poi.NumberOfPoints ?? poi.Connections?.length ?? 0,
+    usage_cost: usageCost,
+    tariff: parseTariff(usageCost),
+    related_url: address.RelatedURL ?? poi.OperatorInfo?.WebsiteURL ?? "",
+    confirmed: poi.IsRecentlyVerified ?? false,
+    last_seen: poi.DateLastStatusUpdate ?? poi.DateLastVerified ?? new Date(0).toISOString(),
+    status: poi.StatusType?.IsOperational === false ? "inactive" : "active",
+  };
+});
+
+/**
+ * POIs for the Cyprus bounding box from the Open Charge Map API
+ * @param client HTTP client, axios by default
+ * @param apiKey OCM API key, from EXPO_PUBLIC_OCM_API_KEY by default
+ */
+export async function fetchOcmStations(client: HttpClient = axios, apiKey = OCM_API_KEY): Promise<Station[]> {
+  const { south, west, north, east } = CYPRUS_BBOX;
+  const { data } = await client.get(`${OCM_BASE_URL}/poi`, {
+    params: {
+      output: "json",
+      boundingbox: `(${south},${west}),(${north},${east})`,
+      maxresults: 1000,
+      compact: false, // keep nested ConnectionType, StatusType and OperatorInfo
+      verbose: false,
+      key: apiKey,
+    },
+    timeout: 12000
+  });
+  return z.array(ocmPoiSchema).parse(data);
+}
+
+// "EAC (Electricity Authority of Cyprus)" and "EAC eCharge" are the same operator
+export function isSameOperator(a: string, b: string): boolean {
+  const norm = (s: string) => s.toLowerCase().replace(/\(.*?\)/g, "").replace(/[^a-z0-9α-ω ]/g, "").trim();
+  const x = norm(a);
+  const y = norm(b);
+  if (!x || !y || x === "unknown" || y === "unknown") return true;
+  return x.includes(y) || y.includes(x) || x.split(" ")[0] === y.split(" ")[0];
+}
+
+// Same station seen by two feeds: same ID/UUID, or same operator within the threshold
+export function isDuplicateStation(a: Station, b: Station, thresholdMeters = 75): boolean {
+  return a.ID === b.ID ||
+    a.UUID === b.UUID ||
+    (haversineDistanceMeters(a.latitude, a.longitude, b.latitude, b.longitude) <= thresholdMeters &&
+      isSameOperator(a.operator, b.operator));
 }
@@ -0,0 +1,246 @@
+import axios from "axios";
+import { z } from "zod";
+import type { Connection, LiveStatus, Station, Tariff, TariffWindow } from "../types/ocm";
+import type { HttpClient } from "./api";
+import { ocpiConnectorType } from "../utils/connectors";
+
+// OCPI 2.2 EVSE status → feed status and live status
+const EVSE_STATUS: Record<string, { status: string; live: LiveStatus }> = {
+  AVAILABLE: { status: "Operational", live: "Available" },
+  CHARGING: { status: "Operational", live: "Occupied" },
+  BLOCKED: { status: "Operational", live: "Occupied" },
+  RESERVED: { status: "Operational", live: "Occupied" },
+  OUTOFORDER: { status: "Not Operational", live: "OutOfOrder" },
+  INOPERATIVE: { status: "Not Operational", live: "OutOfOrder" },
+  PLANNED: { status: "Planned", live: "Unknown" },
+  REMOVED: { status: "Removed", live: "Unknown" },
+};
+
+const POWER_TYPES: Record<string, string> = {
+  AC_1_PHASE: "AC (Single-Phase)",
+  AC_2_PHASE: "AC (Single-Phase)",
+  AC_2_PHASE_SPLIT: "AC (Single-Phase)",
+  AC_3_PHASE: "AC (Three-Phase)",
+  DC: "DC",
+};
+
+const displayTextSchema = z.object({ language: z.string(), text: z.string() });
+
+const connectorSchema = z.object({
+  id: z.string(),
+  standard: z.string(),
+  format: z.string().optional(),
+  power_type: z.string(),
+  max_voltage: z.number(),
+  max_amperage: z.number(),
+  max_electric_power: z.number().nullish(),  // W
+  tariff_ids: z.array(z.string()).default([]),
+  last_updated: z.string(),
+});
+
+const evseSchema = z.object({
+  uid: z.string(),
+  evse_id: z.string().nullish(),
+  status: z.string(),
+  connectors: z.array(connectorSchema).default([]),
+  last_updated: z.string(),
+});
+
+export const ocpiLocationSchema = z.object({
+  country_code: z.string(),
+  party_id: z.string(),
+  id: z.string(),
+  publish: z.boolean().default(true),
+  name: z.string().nullish(),
+  address: z.string(),
+  city: z.string(),
+  postal_code: z.string().nullish(),
+  state: z.string().nullish(),
+  country: z.string(),
+  coordinates: z.object({ latitude: z.string(), longitude: z.string() }),
+  operator: z.object({ name: z.string(), website: z.string().nullish() }).nullish(),
+  evses: z.array(evseSchema).default([]),
+  last_updated: z.string(),
+});
+
+const priceComponentSchema = z.object({
+  type: z.enum(["ENERGY", "FLAT", "PARKING_TIME", "TIME"]),
+  price: z.number(),
+  step_size: z.number().optional(),
+});
+
+export const ocpiTariffSchema = z.object({
+  id: z.string(),
+  currency: z.string(),
+  tariff_alt_text: z.array(displayTextSchema).default([]),
+  elements: z.array(z.object({
+    price_components: z.array(priceComponentSchema),
+    restrictions: z.object({
+      start_time: z.string().optional(),
+      end_time: z.string().optional(),
+    }).passthrough().optional(),
+  })),
+  last_updated: z.string(),
+}).transform((t) => ({ id: t.id, tariff: toTariff(t) }));
+
+export type OcpiLocation = z.infer<typeof ocpiLocationSchema>;
+export type OcpiTariff = z.input<typeof ocpiTariffSchema>;
+
+// OCPI responses wrap their payload in { data, status_code, timestamp }
+const envelope = <T extends z.ZodTypeAny>(schema: T) => z.object({ data: z.array(schema) });
+
+// Elements without a time restriction set the base prices; TIME prices are per hour
+function toTariff(t: {
+  currency: string;
+  tariff_alt_text: Array<{ language: string; text: string }>;
+  elements: Array<{
+    price_components: Array<z.infer<typeof priceComponentSchema>>;
+    restrictions?: { start_time?: string; end_time?: string };
+  }>;
+}): Tariff {
+  const tariff: Tariff = { currency: t.currency, windows: [], raw: t.tariff_alt_text[0]?.text ?? "" };
+
+  for (const element of t.elements) {
+    const { start_time, end_time } = element.restrictions ?? {};
+    const window: TariffWindow | null = start_time && end_time ? { start: start_time, end: end_time } : null;
+
+    for (const c of element.price_components) {
+      if (window) {
+        if (c.type === "ENERGY") window.pricePerKWh = c.price;
+        if (c.type === "TIME") window.pricePerMinute = c.price / 60;
+      } else if (c.type === "ENERGY") {
+        tariff.pricePerKWh = c.price;
+      } else if (c.type === "TIME") {
+        tariff.pricePerMinute = c.price / 60;
+      } else if (c.type === "FLAT") {
+        tariff.sessionFee = c.price;
+      } else if (c.type === "PARKING_TIME") {
+        tariff.idleFeePerMinute = c.price / 60;
+      }
+    }
+    if (window) tariff.windows.push(window);
+  }
+  return tariff;
+}
+
+// Rated power in kW; AC_3_PHASE voltage is line-to-neutral
+function connectorPowerKW(c: z.infer<typeof connectorSchema>): number {
+  if (c.max_electric_power) return c.max_electric_power / 1000;
+  const phases = c.power_type === "AC_3_PHASE" ? 3 : 1;
+  return Math.round((c.max_voltage * c.max_amperage * phases) / 100) / 10;
+}
+
+const localized = (text: string | null | undefined) => ({ en: text ?? "", el: text ?? "" });
+
+/**
+ * Convert an OCPI Location to a Station, one connection per EVSE connector
+ * @param location Validated OCPI Location
+ * @param tariffs Tariffs by id, from the OCPI tariffs module
+ */
+export function ocpiLocationToStation(location: OcpiLocation, tariffs: Map<string, Tariff> = new Map()): Station {
+  const connections: Connection[] = location.evses.flatMap((evse) => {
+    const state = EVSE_STATUS[evse.status] ?? { status: "Unknown", live: "Unknown" as LiveStatus };
+    return evse.connectors.map((c) => ({
+      type: c.format ? `${c.standard}/${c.format}` : c.standard,
+      connectorType: ocpiConnectorType(c.standard, c.format),
+      powerKW: connectorPowerKW(c),
+      current: POWER_TYPES[c.power_type] ?? "Unknown",
+      status: state.status,
+      quantity: 1,
+      evseId: evse.evse_id ?? evse.uid,
+      liveStatus: state.live,
+    }));
+  });
+
+  const tariffId = location.evses
+    .flatMap((e) => e.connectors)
+    .flatMap((c) => c.tariff_ids)
+    .find((id) => tariffs.has(id));
+  const tariff = tariffId ? tariffs.get(tariffId)! : null;
+
+  const updates = [location.last_updated, ...location.evses.map((e) => e.last_updated)];
+  const lastUpdated = updates.reduce((a, b) => (b > a ? b : a));
+
+  return {
+    ID: `${location.country_code}-${location.party_id}-${location.id}`,
+    UUID: location.id,
+    title: localized(location.name || location.address),
+    latitude: Number(location.coordinates.latitude),
+    longitude: Number(location.coordinates.longitude),
+    address: localized(location.address),
+    postcode: Number(location.postal_code) || 0,
+    town: localized(location.city),
+    district: localized(location.state ?? location.city),
+    operator: location.operator?.name ?? location.party_id,
+    connections,
+    number_of_points: location.evses.length,
+    usage_cost: tariff?.raw || "Unknown",
+    tariff,
+    related_url: location.operator?.website ?? "",
+    confirmed: true,
+    last_seen: lastUpdated,
+    status: location.evses.length > 0 && location.evses.every((e) => e.status === "REMOVED") ? "inactive" : "active",
+    statusUpdatedAt: lastUpdated,
+  };
+}
+
+/**
+ * Validate and convert recorded or live OCPI payloads
+ * @param locations OCPI Locations response (with or without the { data } envelope)
+ * @param tariffs OCPI Tariffs response, optional
+ * @returns Stations for every published location; throws ZodError on invalid input
+ */
+export function parseOcpiLocations(locations: unknown, tariffs?: unknown): Station[] {
+  const unwrap = (payload: unknown) =>
+    Array.isArray(payload) ? payload : (payload as { data?: unknown } | null)?.data;
+
+  const tariffById = new Map(
+    z.array(ocpiTariffSchema).parse(tariffs == null ? [] : unwrap(tariffs)).map((t) => [t.id, t.tariff])
+  );
+
+  return z.array(ocpiLocationSchema)
+    .parse(unwrap(locations))
+    .filter((l) => l.publish)
+    .map((l) => ocpiLocationToStation(l, tariffById));
+}
+
+// Follow OCPI pagination (Link: <url>; rel="next")
+export async function fetchAllPages(url: string, token?: string, client: HttpClient = axios): Promise<unknown[]> {
+  const items: unknown[] = [];
+  let next: string | undefined = url;
+
+  for (let page = 0; next && page < 50; page++) {
+    const res: { data: unknown; headers?: Record<string, any> } = await client.get(next, {
+      headers: token ? { Authorization: `Token ${token}` } : undefined,
+      timeout: 12000
+    });
+    items.push(...envelope(z.unknown()).parse(res.data).data);
+    next = String(res.headers?.link ?? "").match(/<([^>]+)>;\s*rel="next"/)?.[1];
+  }
+  return items;
+}
+
+/**
+ * Stations from a CPO's OCPI 2.2 endpoints
+ * @param locationsUrl Locations module URL
+ * @param tariffsUrl Tariffs module URL, optional
+ * @param token OCPI credentials token
+ * @param client HTTP client, axios by default
+ */
+export async function fetchOcpiStations(
+  locationsUrl: string,
+  tariffsUrl?: string,
+  token?: string,
+  client: HttpClient = axios
+): Promise<Station[]> {
+  const [locations, tariffs] = await Promise.all([
+    fetchAllPages(locationsUrl, token, client),
+    tariffsUrl ? fetchAllPages(tariffsUrl, token, client) : Promise.resolve([]),
+  ]);
+  return parseOcpiLocations(locations, tariffs);
+}
+
+// Configure a CPO's OCPI endpoints via env
+export const OCPI_LOCATIONS_URL = process.env.EXPO_PUBLIC_OCPI_LOCATIONS_URL;
+export const OCPI_TARIFFS_URL = process.env.EXPO_PUBLIC_OCPI_TARIFFS_URL;
+export const OCPI_TOKEN = process.env.EXPO_PUBLIC_OCPI_TOKEN;
@@ -0,0 +1,63 @@
+import axios from "axios";
+import { haversineDistanceMeters } from "../utils/geo";
+
+export type LatLng = { latitude: number; longitude: number };
+
+export type RoutePath = {
+  distanceMeters: number;       // by road
+  durationSeconds: number;
+  points: LatLng[];             // polyline from origin to destination
+};
+
+// Anything that can turn two points into a drivable path
+export type RoutingBackend = {
+  name: string;
+  route: (from: LatLng, to: LatLng) => Promise<RoutePath>;
+};
+
+// Roads in Cyprus run ~25 % longer than the straight line
+const DETOUR_FACTOR = 1.25;
+const AVERAGE_SPEED_KMH = 70;
+
+// Offline stand-in: straight line, stretched by a typical road detour
+export const haversineRouting: RoutingBackend = {
+  name: "haversine",
+  route: async (from, to) => {
+    const straight = haversineDistanceMeters(from.latitude, from.longitude, to.latitude, to.longitude);
+    const distanceMeters = straight * DETOUR_FACTOR;
+    return {
+      distanceMeters,
+      durationSeconds: (distanceMeters / 1000 / AVERAGE_SPEED_KMH) * 3600,
+      points: [from, to]
+    };
+  }
+};
+
+/**
+ * Routing against an OSRM-compatible server
+ * @param baseUrl e.g. "https://router.project-osrm.org"
+ */
+export function createOsrmRouting(baseUrl: string): RoutingBackend {
+  return {
+    name: "osrm",
+    route: async (from, to) => {
+      const coords = `${from.longitude},${from.latitude};${to.longitude},${to.latitude}`;
+      const { data } = await axios.get(`${baseUrl}/route/v1/driving/${coords}`, {
+        params: { overview: "simplified", geometries: "geojson" },
+        timeout: 12000
+      });
+      const route = data?.routes?.[0];
+      if (!route) throw new Error("No route found");
+      return {
+        distanceMeters: route.distance,
+        durationSeconds: route.duration,
+        points: route.geometry.coordinates.map(([lng, lat]: [number, number]) => ({ latitude: lat, longitude: lng }))
+      };
+    }
+  };
+}
+
+// Configure a routing server via env; without one, plan on straight lines
+const ROUTING_URL = process.env.EXPO_PUBLIC_ROUTING_URL;
+
+export const defaultRouting: RoutingBackend = ROUTING_URL ? createOsrmRouting(ROUTING_URL) : haversineRouting;
@@ -0,0 +1,56 @@
+import { queryOptions } from "@tanstack/react-query";
+import { CheckInsService, StationReportsService, type CheckIn, type StationReportSignal } from "../services";
+import type { Station } from "../types/ocm";
+import { RELIABILITY_WINDOW_DAYS, stationReliability } from "../utils/reliability";
+
+// Community evidence per station ID, over the reliability window
+export type StationActivity = {
+  checkIns: Record<string, CheckIn[]>;
+  reports: Record<string, StationReportSignal[]>;
+};
+
+const EMPTY_ACTIVITY: StationActivity = { checkIns: {}, reports: {} };
+
+function groupByStation<T extends { stationId: string }>(items: T[]): Record<string, T[]> {
+  const groups: Record<string, T[]> = {};
+  for (const item of items) (groups[item.stationId] ??= []).push(item);
+  return groups;
+}
+
+export async function fetchStationActivity(now: Date = new Date()): Promise<StationActivity> {
+  const since = new Date(now.getTime() - RELIABILITY_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const [checkIns, reports] = await Promise.all([
+    CheckInsService.getRecentCheckIns(since),
+    StationReportsService.getRecentReports(since)
+  ]);
+  return { checkIns: groupByStation(checkIns), reports: groupByStation(reports) };
+}
+
+export const stationActivityQueryOptions = queryOptions({
+  queryKey: ["stationActivity"],
+  queryFn: () => fetchStationActivity(),
+  staleTime: 10 * 60 * 1000,
+});
+
+/**
+ * Set Station.reliability on every station with community evidence. Stations
+ * without check-ins or open reports stay unscored, so the filter keeps them.
+ * @param stations Stations to score
+ * @param activity Check-ins and reports, or undefined while they load
+ * @param now Reference time in ms
+ */
+export function withReliability(
+  stations: Station[],
+  activity: StationActivity = EMPTY_ACTIVITY,
+  now: number = Date.now()
+): Station[] {
+  return stations.map((station) => {
+    const { score, sampleSize } = stationReliability({
+      checkIns: activity.checkIns[station.ID] ?? [],
+      reports: activity.reports[station.ID] ?? [],
+      lastSeen: station.last_seen,
+      confirmed: station.confirmed
+    }, now);
+    return { ...station, reliability: sampleSize > 0 ? score : undefined };
+  });
+}
@@ -0,0 +1,112 @@
+import type { FieldProvenance, Station, StationField, StationSourceId } from "../types/ocm";
+import { isDuplicateStation } from "./api";
+import { pick } from "../utils/i18n";
+
+export type SourceFeed = {
+  source: StationSourceId;
+  stations: Station[];
+  mergeOnly?: boolean;          // only fills in stations other feeds reported
+};
+
+// Operator data beats our backend, which beats crowd-sourced and built-in data
+export const SOURCE_PRIORITY: StationSourceId[] = ["ocpi", "backend", "ocm", "bundled"];
+
+// Favorites and deep links store the IDs our own feeds use
+const ID_PRIORITY: StationSourceId[] = ["backend", "bundled", "ocm", "ocpi"];
+
+// A record this much older than the newest one loses its priority
+const STALE_AFTER_MS = 90 * 24 * 60 * 60 * 1000;
+
+// A single feed's `confirmed` flag only counts while it is this recent
+const CONFIRMED_WITHIN_MS = 180 * 24 * 60 * 60 * 1000;
+
+type SourceRecord = { source: StationSourceId; station: Station; seenAt: number };
+
+// Keys resolved together, and whether a record has anything to offer for them
+const FIELDS: Record<StationField, { keys: (keyof Station)[]; has: (s: Station) => boolean }> = {
+  title: { keys: ["title"], has: (s) => !!pick(s.title).trim() },
+  address: { keys: ["address", "postcode", "town", "district"], has: (s) => !!pick(s.address).trim() },
+  location: { keys: ["latitude", "longitude"], has: (s) => Number.isFinite(s.latitude) && Number.isFinite(s.longitude) },
+  operator: { keys: ["operator"], has: (s) => !!s.operator && s.operator !== "Unknown" },
+  connections: { keys: ["connections", "number_of_points", "status"], has: (s) => s.connections.length > 0 },
+  pricing: { keys: ["usage_cost", "tariff"], has: (s) => s.tariff != null || s.usage_cost !== "Unknown" },
+  link: { keys: ["related_url"], has: (s) => !!s.related_url },
+};
+
+const priorityOf = (source: StationSourceId) => SOURCE_PRIORITY.indexOf(source);
+
+// Feeds that vouch for a station on their own; the bundled JSON is a snapshot of the backend
+export function independentSources(sources: StationSourceId[] = []): StationSourceId[] {
+  return sources.filter((source) => source !== "bundled");
+}
+
+// Copy one field, keeping its key and value types tied together
+function assign<K extends keyof Station>(target: Station, source: Station, key: K) {
+  target[key] = source[key];
+}
+
+// Best record first: fresh before stale, then source priority, then newest
+function rank(records: SourceRecord[]): SourceRecord[] {
+  const newest = Math.max(...records.map((r) => r.seenAt));
+  const isStale = (r: SourceRecord) => newest - r.seenAt > STALE_AFTER_MS;
+  return [...records].sort((a, b) =>
+    Number(isStale(a)) - Number(isStale(b)) ||
+    priorityOf(a.source) - priorityOf(b.source) ||
+    b.seenAt - a.seenAt
+  );
+}
+
+function mergeGroup(records: SourceRecord[], now: number): Station {
+  const ranked = rank(records);
+  const idRecord = [...records].sort((a, b) => ID_PRIORITY.indexOf(a.source) - ID_PRIORITY.indexOf(b.source))[0];
+  const newest = ranked.reduce((a, b) => (b.seenAt > a.seenAt ? b : a));
+
+  const merged: Station = { ...ranked[0].station, ID: idRecord.station.ID, UUID: idRecord.station.UUID };
+  const provenance: Partial<Record<StationField, FieldProvenance>> = {};
+
+  for (const [field, { keys, has }] of Object.entries(FIELDS) as [StationField, typeof FIELDS[StationField]][]) {
+    const winner = ranked.find((r) => has(r.station));
+    if (!winner) continue;
+    keys.forEach((key) => assign(merged, winner.station, key));
+    provenance[field] = { source: winner.source, lastSeen: winner.station.last_seen };
+  }
+
+  const sources = SOURCE_PRIORITY.filter((source) => records.some((r) => r.source === source));
+  // Live statuses stay keyed by each feed's own UUID after the ID is taken from ours
+  const sourceUUIDs = [...new Set([merged.UUID, ...records.map((r) => r.station.UUID)])];
+
+  return {
+    ...merged,
+    last_seen: newest.station.last_seen,
+    // Two independent feeds agree, or one vouched for it recently
+    confirmed: independentSources(sources).length > 1 || records.some((r) => r.station.confirmed && now - r.seenAt < CONFIRMED_WITHIN_MS),
+    sources,
+    sourceUUIDs,
+    provenance,
+  };
+}
+
+/**
+ * Merge stations from several feeds into one dataset
+ * @param feeds One entry per source; order does not matter
+ * @param thresholdMeters How close two same-operator stations of different feeds must be to count as one
+ * @returns One station per physical site, with per-field provenance
+ */
+export function aggregateStations(feeds: SourceFeed[], thresholdMeters = 50, now: Date = new Date()): Station[] {
+  const groups: SourceRecord[][] = [];
+  const ordered = [...feeds].sort((a, b) => priorityOf(a.source) - priorityOf(b.source));
+
+  for (const { source, stations, mergeOnly } of ordered) {
+    for (const station of stations) {
+      const record = { source, station, seenAt: Date.parse(station.last_seen) || 0 };
+      // A feed never merges two of its own stations
+      const group = groups.find((g) =>
+        !g.some((r) => r.source === source) && g.some((r) => isDuplicateStation(r.station, station, thresholdMeters))
+      );
+      if (group) group.push(record);
+      else if (!mergeOnly) groups.push([record]);
+    }
+  }
+
+  return groups.map((g) => mergeGroup(g, now.getTime()));
+}
@@ -0,0 +1,125 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { queryOptions, type QueryClient } from "@tanstack/react-query";
+import { fetchOcmStations, fetchStations, loadBundledStations, OCM_ENABLED, stationsSchema, SYNC_ENABLED } from "./api";
+import { fetchOcpiStations, OCPI_LOCATIONS_URL, OCPI_TARIFFS_URL, OCPI_TOKEN } from "./ocpi";
+import { aggregateStations, type SourceFeed } from "./stationAggregator";
+import { syncStations } from "./stationSync";
+import type { Station, StationSourceId } from "../types/ocm";
+
+const CACHE_KEY = "stations-cache-v2";
+const LEGACY_CACHE_KEY = "stations-cache-v1";
+
+// Where the stations currently shown came from
+export type StationsSource = "network" | "cache" | "bundled";
+
+export type StationsSnapshot = {
+  stations: Station[];          // aggregated across feeds
+  backendStations?: Station[];  // as the backend sent them, the base for delta sync
+  savedAt: string;              // ISO, when the data was last confirmed by the backend
+  source: StationsSource;
+};
+
+export async function readStationsSnapshot(): Promise<StationsSnapshot | null> {
+  try {
+    const raw = await AsyncStorage.getItem(CACHE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    const stations = stationsSchema.safeParse(parsed?.stations);
+    if (!stations.success || typeof parsed.savedAt !== "string") return null;
+    const backendStations = stationsSchema.safeParse(parsed.backendStations);
+    return {
+      stations: stations.data,
+      backendStations: backendStations.success ? backendStations.data : undefined,
+      savedAt: parsed.savedAt,
+      source: "cache"
+    };
+  } catch (error) {
+    console.error("Error reading stations cache:", error);
+    return null;
+  }
+}
+
+export async function writeStationsSnapshot(snapshot: StationsSnapshot): Promise<void> {
+  try {
+    await AsyncStorage.setItem(CACHE_KEY, JSON.stringify({
+      stations: snapshot.stations,
+      backendStations: snapshot.backendStations,
+      savedAt: snapshot.savedAt
+    }));
+    // The v1 cache held a bare array without a timestamp and was never read
+    await AsyncStorage.removeItem(LEGACY_CACHE_KEY);
+  } catch (error) {
+    console.error("Error writing stations cache:", error);
+  }
+}
+
+function bundledSnapshot(): StationsSnapshot {
+  const stations = aggregateStations([{ source: "bundled", stations: loadBundledStations() }]);
+  // The bundled file has no export date; the newest last_seen is the best proxy
+  const newest = stations.reduce((max, s) => Math.max(max, Date.parse(s.last_seen) || 0), 0);
+  return { stations, savedAt: new Date(newest).toISOString(), source: "bundled" };
+}
+
+// Third-party feeds supplement the backend; their failures never block it
+async function loadFeed(source: StationSourceId, load: () => Promise<Station[]>): Promise<SourceFeed> {
+  try {
+    return { source, stations: await load() };
+  } catch (error) {
+    console.error(`Error fetching ${source} stations:`, error);
+    return { source, stations: [] };
+  }
+}
+
+async function loadThirdPartyFeeds(): Promise<SourceFeed[]> {
+  const feeds: Promise<SourceFeed>[] = [];
+  if (OCM_ENABLED) feeds.push(loadFeed("ocm", () => fetchOcmStations()));
+  if (OCPI_LOCATIONS_URL) {
+    feeds.push(loadFeed("ocpi", () => fetchOcpiStations(OCPI_LOCATIONS_URL, OCPI_TARIFFS_URL, OCPI_TOKEN)));
+  }
+  return Promise.all(feeds);
+}
+
+// Network first, then the last successful snapshot, then the bundled file
+export async function loadStationsSnapshot(): Promise<StationsSnapshot> {
+  const previous = await readStationsSnapshot();
+  try {
+    const backendStations = SYNC_ENABLED && previous?.backendStations
+      ? await syncStations(previous.backendStations)
+      : await fetchStations();
+    const stations = aggregateStations([
+      { source: "backend", stations: backendStations },
+      // Built-in data fills gaps but cannot bring back stations the backend dropped
+      { source: "bundled", stations: loadBundledStations(), mergeOnly: true },
+      ...(await loadThirdPartyFeeds())
+    ]);
+    const snapshot: StationsSnapshot = {
+      stations,
+      backendStations,
+      savedAt: new Date().toISOString(),
+      source: "network"
+    };
+    await writeStationsSnapshot(snapshot);
+    return snapshot;
+  } catch {
+    return previous ?? bundledSnapshot();
+  }
+}
+
+export const stationsQueryOptions = queryOptions({
+  queryKey: ["stations"],
+  queryFn: loadStationsSnapshot,
+  staleTime: 1000 * 60 * 5
+});
+
+// Seed the query cache from disk so screens render immediately on startup.
+// The snapshot keeps its original timestamp, so React Query still treats it
+// as stale and refreshes it in the background.
+export async function hydrateStationsQuery(queryClient: QueryClient): Promise<void> {
+  const snapshot = await readStationsSnapshot();
+  if (!snapshot) return;
+  // A fetch that finished first always wins over the disk copy
+  if (queryClient.getQueryData(stationsQueryOptions.queryKey)) return;
+  queryClient.setQueryData(stationsQueryOptions.queryKey, snapshot, {
+    updatedAt: Date.parse(snapshot.savedAt)
+  });
+}
@@ -0,0 +1,95 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { queryOptions } from "@tanstack/react-query";
+import type { Station } from "../types/ocm";
+import type { NewStationAlerts } from "../services";
+
+const SIGHTINGS_KEY = "station-sightings-v1";
+
+// When each station ID first showed up in a refresh. Stations already there on
+// the first run have no date: they are the baseline, not news.
+export type StationSightings = {
+  firstSeen: Record<string, string | null>; // ISO
+};
+
+// How long a station stays in the "What's new" feed
+export const NEW_STATION_WINDOW_DAYS = 60;
+
+let recording: Promise<{ sightings: StationSightings; added: Station[] }> | null = null;
+
+export async function readStationSightings(): Promise<StationSightings> {
+  try {
+    const raw = await AsyncStorage.getItem(SIGHTINGS_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return parsed && typeof parsed.firstSeen === "object" ? parsed : { firstSeen: {} };
+  } catch (error) {
+    console.error("Error reading station sightings:", error);
+    return { firstSeen: {} };
+  }
+}
+
+/**
+ * IDs in `stations` that the sightings have never seen
+ * @param sightings Recorded first-seen dates
+ * @param stations Latest refresh
+ */
+export function diffStationIds(sightings: StationSightings, stations: Station[]): Station[] {
+  return stations.filter((s) => !(s.ID in sightings.firstSeen));
+}
+
+/**
+ * Record the first sighting of every station ID in a refresh. Runs one at a time,
+ * so each new station is reported once.
+ * @param canSeed Whether this refresh may become the baseline; bundled or cached
+ * data would make every station the network adds later look new
+ * @returns Updated sightings, and the stations that are new since the last refresh
+ */
+export function recordStationSightings(stations: Station[], canSeed: boolean, now: Date = new Date()) {
+  const run = async () => {
+    const sightings = await readStationSightings();
+    const baseline = Object.keys(sightings.firstSeen).length === 0;
+    const added = diffStationIds(sightings, stations);
+    if (added.length === 0 || (baseline && !canSeed)) return { sightings, added: [] };
+
+    const firstSeen = { ...sightings.firstSeen };
+    added.forEach((s) => {
+      firstSeen[s.ID] = baseline ? null : now.toISOString();
+    });
+    const next = { firstSeen };
+    await AsyncStorage.setItem(SIGHTINGS_KEY, JSON.stringify(next));
+    return { sightings: next, added: baseline ? [] : added };
+  };
+
+  const queued = (recording ?? Promise.resolve(null)).catch(() => null).then(run);
+  recording = queued;
+  return queued;
+}
+
+// Stations first seen within the feed window, newest first
+export function recentlyAddedStations(
+  sightings: StationSightings,
+  stations: Station[],
+  now: Date = new Date()
+): Array<{ station: Station; firstSeen: Date }> {
+  const cutoff = now.getTime() - NEW_STATION_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  return stations
+    .map((station) => {
+      const seen = sightings.firstSeen[station.ID];
+      return { station, firstSeen: seen ? new Date(seen) : null };
+    })
+    .filter((entry): entry is { station: Station; firstSeen: Date } =>
+      entry.firstSeen != null && entry.firstSeen.getTime() >= cutoff
+    )
+    .sort((a, b) => b.firstSeen.getTime() - a.firstSeen.getTime());
+}
+
+// A new station is announced when its district or its operator is subscribed
+export function matchesNewStationAlerts(station: Station, alerts: NewStationAlerts | undefined): boolean {
+  if (!alerts) return false;
+  return alerts.districts.includes(station.district.en) || alerts.operators.includes(station.operator);
+}
+
+export const stationSightingsQueryOptions = queryOptions({
+  queryKey: ["stationSightings"],
+  queryFn: readStationSightings,
+  staleTime: Infinity,
+});
@@ -0,0 +1,66 @@
+import { isAxiosError } from "axios";
+import { fetchStationChanges, fetchStations, type StationChanges } from "./api";
+import type { Station } from "../types/ocm";
+
+// Newest last_seen in the list; the backend returns everything after it
+export function stationsWatermark(stations: Station[]): string | null {
+  let newest: string | null = null;
+  let newestTime = -Infinity;
+  for (const s of stations) {
+    const time = Date.parse(s.last_seen);
+    if (!Number.isNaN(time) && time > newestTime) {
+      newestTime = time;
+      newest = s.last_seen;
+    }
+  }
+  return newest;
+}
+
+// Apply a delta to the cached list. Stations are matched by ID or UUID so a
+// record whose ID was reassigned upstream still replaces its old copy.
+export function mergeStationChanges(current: Station[], changes: StationChanges): Station[] {
+  const removed = new Set(changes.removed);
+  // An update listed after an add for the same ID wins
+  const incoming = Array.from(
+    new Map([...changes.added, ...changes.updated].map((s) => [s.ID, s])).values()
+  );
+  const byId = new Map(incoming.map((s) => [s.ID, s]));
+  const byUuid = new Map(incoming.map((s) => [s.UUID, s]));
+  const merged = new Set<Station>();
+
+  const next: Station[] = [];
+  for (const s of current) {
+    if (removed.has(s.ID) || removed.has(s.UUID)) continue;
+    const replacement = byId.get(s.ID) ?? byUuid.get(s.UUID);
+    if (replacement) {
+      if (merged.has(replacement)) continue; // already replaced a duplicate
+      merged.add(replacement);
+      next.push(replacement);
+    } else {
+      next.push(s);
+    }
+  }
+
+  for (const s of incoming) {
+    if (merged.has(s) || removed.has(s.ID) || removed.has(s.UUID)) continue;
+    merged.add(s);
+    next.push(s);
+  }
+  return next;
+}
+
+// Bring a cached list up to date, falling back to a full download when the
+// delta endpoint is unavailable or rejects the request
+export async function syncStations(current: Station[]): Promise<Station[]> {
+  const since = stationsWatermark(current);
+  if (!since) return fetchStations();
+
+  try {
+    const changes = await fetchStationChanges(since);
+    return mergeStationChanges(current, changes);
+  } catch (error) {
+    // No response at all means we're offline; a full download would fail too
+    if (isAxiosError(error) && !error.response) throw error;
+    return fetchStations();
+  }
+}
@@ -0,0 +1,146 @@
+import axios from "axios";
+import { z } from "zod";
+import { queryOptions, type QueryClient } from "@tanstack/react-query";
+import type { ConnectorType, LiveStatus, Station } from "../types/ocm";
+import { normalizeConnectorType } from "../utils/connectors";
+import { fetchOcpiStations, OCPI_LOCATIONS_URL, OCPI_TOKEN } from "./ocpi";
+
+// Live status of one station, keyed like the dataset
+export type StationStatus = {
+  UUID: string;
+  connectors: Array<{
+    index?: number;             // position in Station.connections, when the provider knows it
+    connectorType?: ConnectorType;
+    status: LiveStatus;
+  }>;
+  updatedAt: string;            // ISO
+};
+
+// Anything that can report per-connector real-time status
+export type StatusProvider = {
+  name: string;
+  fetch: () => Promise<StationStatus[]>;
+  // Push updates, when the provider supports it; returns an unsubscribe function
+  subscribe?: (onUpdate: (statuses: StationStatus[]) => void) => () => void;
+};
+
+const liveStatusSchema = z.enum(["Available", "Occupied", "OutOfOrder", "Unknown"]).catch("Unknown");
+
+const stationStatusesSchema = z.array(z.object({
+  UUID: z.string(),
+  connectors: z.array(z.object({
+    index: z.number().optional(),
+    connectorType: z.string().optional().transform((t) => (t ? normalizeConnectorType(t) : undefined)),
+    status: liveStatusSchema,
+  })),
+  updatedAt: z.string(),
+}));
+
+/**
+ * Statuses already in StationStatus shape, e.g. from a local mock server
+ * @param url Endpoint returning StationStatus[]
+ */
+export function createHttpStatusProvider(url: string): StatusProvider {
+  return {
+    name: "http",
+    fetch: async () => {
+      const { data } = await axios.get(url, { timeout: 12000 });
+      return stationStatusesSchema.parse(data);
+    }
+  };
+}
+
+/**
+ * OCPI 2.2 Locations module; location ids must match a station's UUID or one of its sourceUUIDs
+ * @param baseUrl Locations endpoint, e.g. "https://cpo.example.com/ocpi/2.2/locations"
+ * @param token OCPI credentials token
+ */
+export function createOcpiStatusProvider(baseUrl: string, token?: string): StatusProvider {
+  return {
+    name: "ocpi",
+    fetch: async () => {
+      const stations = await fetchOcpiStations(baseUrl, undefined, token);
+      return stations.map((station) => ({
+        UUID: station.UUID,
+        connectors: station.connections.map((c) => ({
+          connectorType: c.connectorType,
+          status: c.liveStatus ?? "Unknown",
+        })),
+        updatedAt: station.statusUpdatedAt ?? station.last_seen,
+      }));
+    }
+  };
+}
+
+// Most useful status among several reports for the same connection
+function combine(statuses: LiveStatus[]): LiveStatus | undefined {
+  if (!statuses.length) return undefined;
+  if (statuses.includes("Available")) return "Available";
+  if (statuses.includes("Occupied")) return "Occupied";
+  if (statuses.every((s) => s === "OutOfOrder")) return "OutOfOrder";
+  return "Unknown";
+}
+
+/**
+ * Overlay live statuses on the dataset
+ * @param stations Stations from the dataset
+ * @param statuses Provider results, matched by UUID or any of the station's sourceUUIDs
+ * @returns New station objects for the stations that have a status, the rest untouched
+ */
+export function mergeStationStatuses(stations: Station[], statuses: StationStatus[]): Station[] {
+  if (!statuses.length) return stations;
+  const byUUID = new Map(statuses.map((s) => [s.UUID, s]));
+
+  return stations.map((station) => {
+    const status = [station.UUID, ...(station.sourceUUIDs ?? [])]
+      .map((uuid) => byUUID.get(uuid))
+      .find((s) => s != null);
+    if (!status) return station;
+
+    return {
+      ...station,
+      statusUpdatedAt: status.updatedAt,
+      connections: station.connections.map((connection, index) => {
+        // Prefer the exact position, otherwise everything reported for this connector type
+        const exact = status.connectors.filter((c) => c.index === index);
+        const reports = exact.length
+          ? exact
+          : status.connectors.filter((c) => c.index == null && c.connectorType === connection.connectorType);
+        const liveStatus = combine(reports.map((c) => c.status));
+        return liveStatus ? { ...connection, liveStatus } : connection;
+      }),
+    };
+  });
+}
+
+// Configure a status feed via env: the OCPI locations endpoint or a plain JSON one
+const STATUS_URL = process.env.EXPO_PUBLIC_STATUS_URL;
+
+export const defaultStatusProvider: StatusProvider | null = OCPI_LOCATIONS_URL
+  ? createOcpiStatusProvider(OCPI_LOCATIONS_URL, OCPI_TOKEN)
+  : STATUS_URL
+    ? createHttpStatusProvider(STATUS_URL)
+    : null;
+
+// Replace the statuses of the stations in `updates`, keep the rest
+function upsertStatuses(current: StationStatus[] | undefined, updates: StationStatus[]): StationStatus[] {
+  const byUUID = new Map((current ?? []).map((s) => [s.UUID, s]));
+  updates.forEach((s) => byUUID.set(s.UUID, s));
+  return [...byUUID.values()];
+}
+
+export const stationStatusQueryOptions = queryOptions({
+  queryKey: ["stationStatus"],
+  queryFn: () => defaultStatusProvider!.fetch(),
+  enabled: defaultStatusProvider != null,
+  staleTime: 30 * 1000,
+  refetchInterval: 60 * 1000,
+});
+
+// Feed pushed updates into the query cache; returns an unsubscribe function
+export function subscribeToStationStatuses(queryClient: QueryClient): () => void {
+  if (!defaultStatusProvider?.subscribe) return () => {};
+  return defaultStatusProvider.subscribe((updates) => {
+    queryClient.setQueryData(stationStatusQueryOptions.queryKey, (current) => upsertStatuses(current, updates));
+  });
+}
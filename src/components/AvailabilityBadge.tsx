@@ -0,0 +1,60 @@
+import React from 'react';
+import { View, Text, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import type { Station } from '../types/ocm';
+import { LIVE_STATUS_COLORS, formatUpdatedAgo, liveStatusLabelKey, stationAvailability } from '../utils/availability';
+
+interface AvailabilityBadgeProps {
+  station: Station;
+  style?: StyleProp<ViewStyle>;
+}
+
+// Live availability with its age; renders nothing without a status provider
+const AvailabilityBadge: React.FC<AvailabilityBadgeProps> = ({ station, style }) => {
+  const { t } = useTranslation();
+  const availability = stationAvailability(station);
+
+  if (!availability) return null;
+
+  const color = LIVE_STATUS_COLORS[availability.status];
+
+  return (
+    <View style={[styles.container, { borderColor: color }, style]}>
+      <View style={[styles.dot, { backgroundColor: color }]} />
+      <Text style={[styles.text, { color }]}>
+        {availability.status === 'Available'
+          ? t('availability.availableCount', { available: availability.available, total: availability.total })
+          : t(liveStatusLabelKey(availability.status))}
+      </Text>
+      <Text style={styles.age}>• {formatUpdatedAgo(availability.updatedAt, t)}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  text: {
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  age: {
+    fontSize: 11,
+    color: '#6B7280',
+  },
+});
+
+export default AvailabilityBadge;
@@ -0,0 +1,161 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TextInput, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import type { Station } from '../types/ocm';
+import { estimateCharge, formatDuration, type ChargeEstimateInput } from '../utils/chargeEstimate';
+import { formatPrice } from '../utils/tariff';
+import { CONNECTOR_ICONS, connectorLabelKey } from '../utils/connectors';
+
+interface ChargeEstimatorProps {
+  station: Station;
+  batteryKWh?: number;
+  maxACKW?: number;
+  maxDCKW?: number;
+}
+
+// Parse a numeric field, falling back to the previous value while typing
+const toNumber = (text: string, fallback: number) => {
+  const value = Number(text.replace(',', '.'));
+  return Number.isFinite(value) ? value : fallback;
+};
+
+const ChargeEstimator: React.FC<ChargeEstimatorProps> = ({
+  station,
+  batteryKWh: initialBattery = 60,
+  maxACKW,
+  maxDCKW
+}) => {
+  const { t, i18n } = useTranslation();
+  const [battery, setBattery] = useState(String(initialBattery));
+  const [fromSoC, setFromSoC] = useState('20');
+  const [toSoC, setToSoC] = useState('80');
+
+  const estimates = useMemo(() => {
+    const input: ChargeEstimateInput = {
+      batteryKWh: toNumber(battery, 0),
+      fromSoC: toNumber(fromSoC, 0),
+      toSoC: toNumber(toSoC, 0),
+      maxACKW,
+      maxDCKW
+    };
+    return station.connections.map((c) => estimateCharge(c, input, station.tariff));
+  }, [station, battery, fromSoC, toSoC, maxACKW, maxDCKW]);
+
+  const fields: Array<[string, string, (v: string) => void]> = [
+    [t('estimator.battery'), battery, setBattery],
+    [t('estimator.fromSoC'), fromSoC, setFromSoC],
+    [t('estimator.toSoC'), toSoC, setToSoC]
+  ];
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>{t('estimator.title')}</Text>
+
+      <View style={styles.inputsRow}>
+        {fields.map(([label, value, onChange]) => (
+          <View key={label} style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>{label}</Text>
+            <TextInput
+              style={styles.input}
+              value={value}
+              onChangeText={onChange}
+              keyboardType="decimal-pad"
+              maxLength={5}
+            />
+          </View>
+        ))}
+      </View>
+
+      {estimates.map((e, index) => (
+        <View key={index} style={styles.resultRow}>
+          <MaterialCommunityIcons
+            name={CONNECTOR_ICONS[e.connection.connectorType]}
+            size={28}
+            color="#111827"
+          />
+          <View style={{ flex: 1, marginLeft: 12 }}>
+            <Text style={styles.resultTitle}>
+              {t(connectorLabelKey(e.connection.connectorType))} • {Math.round(e.powerKW)} kW {e.isDC ? 'DC' : 'AC'}
+            </Text>
+            <Text style={styles.resultDetail}>
+              {e.energyKWh.toFixed(1)} kWh
+              {e.cost != null && station.tariff ? ` • ${formatPrice(e.cost, station.tariff.currency, i18n.language)}` : ''}
+            </Text>
+          </View>
+          <Text style={styles.resultTime}>{formatDuration(e.minutes, t)}</Text>
+        </View>
+      ))}
+
+      <Text style={styles.note}>{t('estimator.disclaimer')}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 12,
+  },
+  inputsRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  inputGroup: {
+    flex: 1,
+  },
+  inputLabel: {
+    fontSize: 11,
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#111827',
+    backgroundColor: '#F9FAFB',
+  },
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderColor: '#F3F4F6',
+  },
+  resultTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  resultDetail: {
+    fontSize: 12,
+    color: '#374151',
+  },
+  resultTime: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#10B981',
+  },
+  note: {
+    fontSize: 11,
+    color: '#6B7280',
+    marginTop: 8,
+  },
+});
+
+export default ChargeEstimator;
@@ -1,5 +1,7 @@
 import React from 'react';
 import { View } from 'react-native';
+import type { LiveStatus } from '../types/ocm';
+import { reliabilityColor } from '../utils/reliability';
 import Svg, { Circle, Path, Defs, Filter, FeGaussianBlur, FeOffset, FeMerge, FeMergeNode, G, Text, Rect, Ellipse } from 'react-native-svg';
 
 interface ChargingStationMarkerProps {
@@ -9,8 +11,10 @@ interface ChargingStationMarkerProps {
     isAvailable?: boolean;
     connections?: Array<{
         status?: string;
+        liveStatus?: LiveStatus;
         powerKW?: number;
     }>;
+    reliability?: number; // 0–1, drawn as a progress ring around the icon
 }
 
 export default function ChargingStationMarker({
@@ -18,7 +22,8 @@ export default function ChargingStationMarker({
     isFastDC = false,
     connectorCount,
     isAvailable = true,
-    connections = []
+    connections = [],
+    reliability
 }: ChargingStationMarkerProps) {
     const scale = size / 64; // Original SVG is 64x64
 
@@ -26,6 +31,15 @@ export default function ChargingStationMarker({
     const getAvailabilityStatus = () => {
         if (!connections || connections.length === 0) return 'unknown';
 
+        // Live status from a status provider wins over the static feed value
+        const live = connections.map(c => c.liveStatus).filter(Boolean);
+        if (live.length > 0) {
+            if (live.includes('Available')) return 'available';
+            if (live.includes('Occupied')) return 'busy';
+            if (live.every(s => s === 'OutOfOrder')) return 'unavailable';
+            return 'unknown';
+        }
+
         const operationalConnections = connections.filter(c => c.status === 'Operational');
         const availableConnections = connections.filter(c => c.status === 'Available');
 
@@ -74,6 +88,10 @@ export default function ChargingStationMarker({
     const badgeColor = '#111827';
     const badgeTextColor = '#ffffff';
 
+    // Reliability ring around the icon, filled clockwise from the top
+    const ringRadius = 15;
+    const ringCircumference = 2 * Math.PI * ringRadius;
+
     return (
         <View style={{ width: size, height: size }}>
             <Svg width={size} height={size} viewBox="0 0 64 64">
@@ -113,6 +131,24 @@ export default function ChargingStationMarker({
                     opacity="0.08"
                 />
 
+                {/* Reliability ring */}
+                {reliability != null && (
+                    <G>
+                        <Circle cx="32" cy="27" r={ringRadius} fill="none" stroke="#ffffff" strokeOpacity="0.35" strokeWidth="2.5" />
+                        <Circle
+                            cx="32"
+                            cy="27"
+                            r={ringRadius}
+                            fill="none"
+                            stroke={reliabilityColor(reliability)}
+                            strokeWidth="2.5"
+                            strokeLinecap="round"
+                            strokeDasharray={`${ringCircumference * Math.max(0, Math.min(1, reliability))} ${ringCircumference}`}
+                            transform="rotate(-90 32 27)"
+                        />
+                    </G>
+                )}
+
                 {/* EV Station Icon */}
                 <G transform="translate(15,44) scale(0.035, 0.035)">
                     <Path
@@ -0,0 +1,489 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  Switch,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { useTranslation } from 'react-i18next';
+import { useQuery } from '@tanstack/react-query';
+import { CheckInsService } from '../services';
+import { useAuth } from '../contexts';
+import { pick } from '../utils/i18n';
+import type { Station } from '../types/ocm';
+import { useStationCheckIns } from '../hooks/useStationCheckIns';
+import { stationActivityQueryOptions } from '../api/stationActivity';
+import { stationReliability, reliabilityColor } from '../utils/reliability';
+import { connectorLabelKey } from '../utils/connectors';
+import { formatPrice } from '../utils/tariff';
+
+interface CheckInsCardProps {
+  station: Station;
+  canCheckIn: boolean; // signed in, not a guest
+}
+
+type CheckInForm = {
+  connectorIndex: number;
+  success: boolean;
+  kWh: string;
+  cost: string;
+  comment: string;
+  addToHistory: boolean;
+};
+
+const EMPTY_FORM: CheckInForm = {
+  connectorIndex: 0,
+  success: true,
+  kWh: '',
+  cost: '',
+  comment: '',
+  addToHistory: true,
+};
+
+// Blank or unparseable optional numbers are left out of the check-in
+const toOptionalNumber = (text: string) => {
+  const value = Number(text.replace(',', '.'));
+  return text.trim() && Number.isFinite(value) && value >= 0 ? value : undefined;
+};
+
+const CheckInsCard: React.FC<CheckInsCardProps> = ({ station, canCheckIn }) => {
+  const { t, i18n } = useTranslation();
+  const { user } = useAuth();
+  const { checkIns, loading } = useStationCheckIns(station.ID);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [form, setForm] = useState<CheckInForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const { data: activity } = useQuery(stationActivityQueryOptions);
+
+  // Same score as Station.reliability, with the live check-ins instead of the cached ones
+  const reliability = useMemo(() => stationReliability({
+    checkIns,
+    reports: activity?.reports[station.ID] ?? [],
+    lastSeen: station.last_seen,
+    confirmed: station.confirmed,
+  }), [checkIns, activity, station.ID, station.last_seen, station.confirmed]);
+  // The cost field is entered in, and saved with, this currency
+  const currency = station.tariff?.currency ?? 'EUR';
+
+  const openForm = () => {
+    setForm(EMPTY_FORM);
+    setModalVisible(true);
+  };
+
+  const handleSave = async () => {
+    const connection = station.connections[form.connectorIndex];
+    if (!connection) return;
+
+    const kWh = form.success ? toOptionalNumber(form.kWh) : undefined;
+    const cost = form.success ? toOptionalNumber(form.cost) : undefined;
+
+    setSaving(true);
+    try {
+      // Sessions with energy logged also go to the user's own history, written with the check-in
+      const session = user && form.addToHistory && kWh
+        ? {
+          stationId: station.ID,
+          stationName: pick(station.title),
+          operator: station.operator,
+          startedAt: new Date(),
+          kWh,
+          cost,
+          currency: cost != null ? currency : undefined,
+          source: 'checkIn' as const,
+        }
+        : undefined;
+
+      await CheckInsService.addCheckIn(station.ID, {
+        connectorType: connection.connectorType,
+        connectorIndex: form.connectorIndex,
+        success: form.success,
+        kWh,
+        cost,
+        currency: cost != null ? currency : undefined,
+        comment: form.comment.trim() || undefined,
+      }, session);
+      setModalVisible(false);
+    } catch (error) {
+      console.error('Error saving check-in:', error);
+      Alert.alert(t('common.error'), t('checkIns.error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.titleRow}>
+        <Text style={styles.title}>{t('checkIns.title')}</Text>
+        {/* Unscored like in the list and on the map until there is evidence */}
+        {reliability.sampleSize > 0 ? (
+          <View style={[styles.scoreBadge, { backgroundColor: reliabilityColor(reliability.score) }]}>
+            <Text style={styles.scoreText}>{Math.round(reliability.score * 100)}%</Text>
+          </View>
+        ) : (
+          <View style={[styles.scoreBadge, styles.scoreBadgeEmpty]}>
+            <Text style={styles.scoreText}>{t('checkIns.noScore')}</Text>
+          </View>
+        )}
+      </View>
+
+      <Text style={styles.summary}>
+        {reliability.sampleSize > 0
+          ? t('checkIns.reliability', { count: reliability.sampleSize })
+          : t('checkIns.reliabilityNoData')}
+      </Text>
+
+      {checkIns.length === 0 && (
+        <Text style={styles.summary}>{loading ? t('common.loading') : t('checkIns.empty')}</Text>
+      )}
+
+      {checkIns.slice(0, 5).map((checkIn) => (
+        <View key={checkIn.id} style={styles.row}>
+          <MaterialIcons
+            name={checkIn.success ? 'check-circle' : 'cancel'}
+            size={20}
+            color={checkIn.success ? '#10B981' : '#EF4444'}
+          />
+          <View style={{ flex: 1, marginLeft: 10 }}>
+            <Text style={styles.rowTitle}>
+              {t(connectorLabelKey(checkIn.connectorType))}
+              {checkIn.kWh != null ? ` • ${checkIn.kWh} kWh` : ''}
+              {checkIn.cost != null ? ` • ${formatPrice(checkIn.cost, checkIn.currency ?? 'EUR', i18n.language)}` : ''}
+            </Text>
+            {checkIn.comment ? <Text style={styles.rowComment}>{checkIn.comment}</Text> : null}
+            <Text style={styles.rowMeta}>
+              {[checkIn.userName, checkIn.checkedInAt.toLocaleDateString(i18n.language, { day: 'numeric', month: 'short' })]
+                .filter(Boolean)
+                .join(' • ')}
+            </Text>
+          </View>
+        </View>
+      ))}
+
+      {canCheckIn && station.connections.length > 0 && (
+        <TouchableOpacity style={styles.checkInButton} onPress={openForm}>
+          <MaterialIcons name="where-to-vote" size={20} color="#FFFFFF" />
+          <Text style={styles.checkInButtonText}>{t('checkIns.checkIn')}</Text>
+        </TouchableOpacity>
+      )}
+
+      <Modal
+        visible={modalVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <Text style={styles.modalTitle}>{t('checkIns.checkIn')}</Text>
+
+              <Text style={styles.inputLabel}>{t('checkIns.connector')}</Text>
+              <View style={styles.chips}>
+                {station.connections.map((connection, index) => {
+                  const selected = index === form.connectorIndex;
+                  return (
+                    <TouchableOpacity
+                      key={index}
+                      style={[styles.chip, selected && styles.chipSelected]}
+                      onPress={() => setForm((f) => ({ ...f, connectorIndex: index }))}
+                    >
+                      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                        {t(connectorLabelKey(connection.connectorType))} {connection.powerKW} kW
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              <Text style={styles.inputLabel}>{t('checkIns.outcome')}</Text>
+              <View style={styles.chips}>
+                {[true, false].map((success) => {
+                  const selected = form.success === success;
+                  return (
+                    <TouchableOpacity
+                      key={String(success)}
+                      style={[styles.chip, selected && (success ? styles.chipSuccess : styles.chipFailure)]}
+                      onPress={() => setForm((f) => ({ ...f, success }))}
+                    >
+                      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                        {success ? t('checkIns.worked') : t('checkIns.failed')}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              {form.success && (
+                <View style={styles.numericGrid}>
+                  <View style={styles.numericField}>
+                    <Text style={styles.inputLabel}>{t('checkIns.energy')}</Text>
+                    <TextInput
+                      style={styles.modalInput}
+                      value={form.kWh}
+                      onChangeText={(kWh) => setForm((f) => ({ ...f, kWh }))}
+                      keyboardType="decimal-pad"
+                      maxLength={6}
+                    />
+                  </View>
+                  <View style={styles.numericField}>
+                    <Text style={styles.inputLabel}>{t('checkIns.cost', { currency })}</Text>
+                    <TextInput
+                      style={styles.modalInput}
+                      value={form.cost}
+                      onChangeText={(cost) => setForm((f) => ({ ...f, cost }))}
+                      keyboardType="decimal-pad"
+                      maxLength={7}
+                    />
+                  </View>
+                </View>
+              )}
+
+              {form.success && (
+                <View style={styles.switchRow}>
+                  <Text style={styles.switchLabel}>{t('checkIns.addToHistory')}</Text>
+                  <Switch
+                    value={form.addToHistory}
+                    onValueChange={(addToHistory) => setForm((f) => ({ ...f, addToHistory }))}
+                  />
+                </View>
+              )}
+
+              <Text style={styles.inputLabel}>{t('checkIns.comment')}</Text>
+              <TextInput
+                style={[styles.modalInput, styles.multiline]}
+                value={form.comment}
+                onChangeText={(comment) => setForm((f) => ({ ...f, comment }))}
+                multiline
+                maxLength={300}
+              />
+
+              <View style={styles.modalButtons}>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.cancelButton]}
+                  onPress={() => setModalVisible(false)}
+                  disabled={saving}
+                >
+                  <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.saveButton]}
+                  onPress={handleSave}
+                  disabled={saving}
+                >
+                  <Text style={styles.saveButtonText}>
+                    {saving ? t('common.loading') : t('common.save')}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  scoreBadge: {
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  scoreBadgeEmpty: {
+    backgroundColor: '#9CA3AF',
+  },
+  scoreText: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  summary: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderColor: '#F3F4F6',
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  rowComment: {
+    fontSize: 13,
+    color: '#374151',
+    marginTop: 2,
+  },
+  rowMeta: {
+    fontSize: 11,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  checkInButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#111827',
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+  checkInButtonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '700',
+    marginLeft: 8,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 24,
+    width: '90%',
+    maxWidth: 420,
+    maxHeight: '85%',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  inputLabel: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 4,
+  },
+  modalInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+    backgroundColor: '#f9f9f9',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  switchLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+    marginRight: 12,
+  },
+  multiline: {
+    minHeight: 70,
+    textAlignVertical: 'top',
+  },
+  numericGrid: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  numericField: {
+    width: '48%',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#f9f9f9',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipSuccess: {
+    backgroundColor: '#10B981',
+    borderColor: '#10B981',
+  },
+  chipFailure: {
+    backgroundColor: '#EF4444',
+    borderColor: '#EF4444',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  modalButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#f0f0f0',
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default CheckInsCard;
@@ -0,0 +1,291 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  Switch,
+  StyleSheet,
+} from 'react-native';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { useTranslation } from 'react-i18next';
+import type { TFunction } from 'i18next';
+import { SUGGESTED_FAVORITE_LABELS, FavoriteStation, UpdateFavoriteData } from '../services';
+
+interface FavoriteEditorModalProps {
+  favorite: FavoriteStation | null;
+  onSave: (stationId: string, updates: UpdateFavoriteData) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const MAX_LABEL_LENGTH = 20;
+
+// Suggested labels are stored in English and translated for display
+export const favoriteLabelText = (t: TFunction, label: string) =>
+  SUGGESTED_FAVORITE_LABELS.includes(label) ? t(`favorites.labels.${label.toLowerCase()}`) : label;
+
+const FavoriteEditorModal: React.FC<FavoriteEditorModalProps> = ({ favorite, onSave, onClose }) => {
+  const { t } = useTranslation();
+  const [notes, setNotes] = useState('');
+  const [labels, setLabels] = useState<string[]>([]);
+  const [customLabel, setCustomLabel] = useState('');
+  const [notifyOnChange, setNotifyOnChange] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Start from the favorite's saved values each time the modal opens
+  useEffect(() => {
+    if (favorite) {
+      setNotes(favorite.notes ?? '');
+      setLabels(favorite.labels ?? []);
+      setCustomLabel('');
+      setNotifyOnChange(!!favorite.notifyOnChange);
+    }
+  }, [favorite]);
+
+  const toggleLabel = (label: string) => {
+    setLabels((current) =>
+      current.includes(label) ? current.filter((l) => l !== label) : [...current, label]
+    );
+  };
+
+  const addCustomLabel = () => {
+    const label = customLabel.trim();
+    if (!label) return;
+    if (!labels.some((l) => l.toLowerCase() === label.toLowerCase())) {
+      setLabels([...labels, label]);
+    }
+    setCustomLabel('');
+  };
+
+  const handleSave = async () => {
+    if (!favorite) return;
+    setSaving(true);
+    const saved = await onSave(favorite.stationId, { notes: notes.trim(), labels, notifyOnChange });
+    setSaving(false);
+    // On failure stay open; the favorites screen reports the error
+    if (saved) onClose();
+  };
+
+  const labelOptions = [...SUGGESTED_FAVORITE_LABELS, ...labels.filter((l) => !SUGGESTED_FAVORITE_LABELS.includes(l))];
+
+  return (
+    <Modal visible={!!favorite} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            <Text style={styles.modalTitle}>{t('favorites.editTitle')}</Text>
+            <Text style={styles.stationName}>{favorite?.stationName}</Text>
+
+            <Text style={styles.inputLabel}>{t('favorites.labelsTitle')}</Text>
+            <View style={styles.chipRow}>
+              {labelOptions.map((label) => {
+                const selected = labels.includes(label);
+                return (
+                  <TouchableOpacity
+                    key={label}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => toggleLabel(label)}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                      {favoriteLabelText(t, label)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <View style={styles.customLabelRow}>
+              <TextInput
+                style={[styles.modalInput, styles.customLabelInput]}
+                value={customLabel}
+                onChangeText={setCustomLabel}
+                placeholder={t('favorites.customLabel')}
+                maxLength={MAX_LABEL_LENGTH}
+                onSubmitEditing={addCustomLabel}
+                returnKeyType="done"
+              />
+              <TouchableOpacity style={styles.addLabelButton} onPress={addCustomLabel}>
+                <MaterialIcons name="add" size={22} color="#007AFF" />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.inputLabel}>{t('favorites.notes')}</Text>
+            <TextInput
+              style={[styles.modalInput, styles.multiline]}
+              value={notes}
+              onChangeText={setNotes}
+              placeholder={t('favorites.notesPlaceholder')}
+              multiline
+              maxLength={500}
+            />
+
+            <View style={styles.switchRow}>
+              <View style={styles.switchText}>
+                <Text style={styles.switchLabel}>{t('favoriteAlerts.toggle')}</Text>
+                <Text style={styles.switchHint}>{t('favoriteAlerts.toggleHint')}</Text>
+              </View>
+              <Switch value={notifyOnChange} onValueChange={setNotifyOnChange} />
+            </View>
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton]}
+                onPress={onClose}
+                disabled={saving}
+              >
+                <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.saveButton]}
+                onPress={handleSave}
+                disabled={saving}
+              >
+                <Text style={styles.saveButtonText}>
+                  {saving ? t('common.loading') : t('common.save')}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 24,
+    width: '90%',
+    maxWidth: 420,
+    maxHeight: '85%',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+    textAlign: 'center',
+  },
+  stationName: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 4,
+    marginBottom: 20,
+  },
+  inputLabel: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  chipSelected: {
+    borderColor: '#007AFF',
+    backgroundColor: '#EFF6FF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  customLabelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  customLabelInput: {
+    flex: 1,
+  },
+  addLabelButton: {
+    padding: 10,
+    marginBottom: 8,
+    borderRadius: 8,
+    backgroundColor: '#EFF6FF',
+  },
+  modalInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 8,
+    backgroundColor: '#f9f9f9',
+  },
+  multiline: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+    marginBottom: 24,
+  },
+  switchText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  switchLabel: {
+    fontSize: 14,
+    color: '#333',
+  },
+  switchHint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  modalButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#f0f0f0',
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default FavoriteEditorModal;
@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  StyleSheet,
+} from 'react-native';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { useTranslation } from 'react-i18next';
+import type { FavoriteList } from '../services';
+import { MAX_LIST_NAME_LENGTH } from './FavoriteListNameModal';
+
+interface FavoriteListPickerProps {
+  visible: boolean;
+  stationId: string;
+  stationName: string;
+  lists: FavoriteList[];
+  onToggle: (listId: string, included: boolean) => void;
+  onCreate: (name: string) => void;
+  onClose: () => void;
+}
+
+// Choose which lists a favorite station belongs to
+const FavoriteListPicker: React.FC<FavoriteListPickerProps> = ({
+  visible,
+  stationId,
+  stationName,
+  lists,
+  onToggle,
+  onCreate,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const [newName, setNewName] = useState('');
+
+  useEffect(() => {
+    if (visible) setNewName('');
+  }, [visible]);
+
+  const handleCreate = () => {
+    const name = newName.trim();
+    if (!name) return;
+    onCreate(name);
+    setNewName('');
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>{t('favoriteLists.addToList')}</Text>
+          <Text style={styles.stationName}>{stationName}</Text>
+
+          <ScrollView style={styles.listScroll} keyboardShouldPersistTaps="handled">
+            {lists.length === 0 && (
+              <Text style={styles.emptyText}>{t('favoriteLists.noLists')}</Text>
+            )}
+            {lists.map((list) => {
+              const included = list.stationIds.includes(stationId);
+              return (
+                <TouchableOpacity
+                  key={list.id}
+                  style={styles.listRow}
+                  onPress={() => onToggle(list.id, !included)}
+                >
+                  <MaterialIcons
+                    name={included ? 'check-box' : 'check-box-outline-blank'}
+                    size={22}
+                    color={included ? '#007AFF' : '#999'}
+                  />
+                  <Text style={styles.listName}>{list.name}</Text>
+                  <Text style={styles.listCount}>{list.stationIds.length}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          <View style={styles.newListRow}>
+            <TextInput
+              style={styles.modalInput}
+              value={newName}
+              onChangeText={setNewName}
+              placeholder={t('favoriteLists.newListPlaceholder')}
+              maxLength={MAX_LIST_NAME_LENGTH}
+              onSubmitEditing={handleCreate}
+              returnKeyType="done"
+            />
+            <TouchableOpacity style={styles.addButton} onPress={handleCreate}>
+              <MaterialIcons name="add" size={22} color="#007AFF" />
+            </TouchableOpacity>
+          </View>
+
+          <TouchableOpacity style={styles.doneButton} onPress={onClose}>
+            <Text style={styles.doneButtonText}>{t('favoriteLists.done')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 24,
+    width: '90%',
+    maxWidth: 420,
+    maxHeight: '85%',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+    textAlign: 'center',
+  },
+  stationName: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  listScroll: {
+    flexGrow: 0,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  listName: {
+    flex: 1,
+    fontSize: 16,
+    color: '#333',
+    marginLeft: 12,
+  },
+  listCount: {
+    fontSize: 14,
+    color: '#999',
+  },
+  newListRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  modalInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#f9f9f9',
+  },
+  addButton: {
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#EFF6FF',
+  },
+  doneButton: {
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: '#007AFF',
+  },
+  doneButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default FavoriteListPicker;
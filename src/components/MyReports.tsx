@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { useTranslation } from 'react-i18next';
+import { StationReportsService, StationReport } from '../services';
+import { REPORT_TYPE_ICONS } from './ReportStationModal';
+
+// Station reports the signed-in user has filed, including ones still queued offline
+const MyReports: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const [reports, setReports] = useState<StationReport[]>([]);
+
+  useEffect(() => StationReportsService.subscribeToMyReports(setReports), []);
+
+  const statusLabel = (report: StationReport) =>
+    report.pending ? t('reports.status.pending') : t(`reports.status.${report.status}`);
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{t('reports.myReports')}</Text>
+
+      {reports.length === 0 ? (
+        <Text style={styles.emptyText}>{t('reports.empty')}</Text>
+      ) : (
+        reports.map((report) => (
+          <View key={report.id} style={styles.reportRow}>
+            <MaterialIcons
+              name={REPORT_TYPE_ICONS[report.type]}
+              size={20}
+              color="#666"
+              style={styles.icon}
+            />
+            <View style={{ flex: 1 }}>
+              <Text style={styles.reportTitle}>{t(`reports.types.${report.type}`)}</Text>
+              <Text style={styles.reportDetail} numberOfLines={1}>{report.stationName}</Text>
+              <Text style={styles.reportDetail}>
+                {new Date(report.reportedAt).toLocaleDateString(i18n.language, { day: 'numeric', month: 'short', year: 'numeric' })}
+              </Text>
+            </View>
+            <Text
+              style={[
+                styles.status,
+                report.pending ? styles.statusPending : report.status === 'resolved' && styles.statusResolved,
+              ]}
+            >
+              {statusLabel(report)}
+            </Text>
+          </View>
+        ))
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    paddingVertical: 12,
+  },
+  reportRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  icon: {
+    marginRight: 12,
+  },
+  reportTitle: {
+    fontSize: 16,
+    color: '#333',
+    fontWeight: '600',
+  },
+  reportDetail: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  status: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginLeft: 8,
+  },
+  statusPending: {
+    color: '#F59E0B',
+  },
+  statusResolved: {
+    color: '#10B981',
+  },
+});
+
+export default MyReports;
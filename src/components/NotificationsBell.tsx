@@ -0,0 +1,56 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { useNotificationInbox } from '../hooks';
+
+interface NotificationsBellProps {
+  onPress: () => void;
+}
+
+// Header button for the notification inbox, with the unread count
+const NotificationsBell: React.FC<NotificationsBellProps> = ({ onPress }) => {
+  const { t } = useTranslation();
+  const { unreadCount } = useNotificationInbox();
+
+  return (
+    <TouchableOpacity
+      style={styles.button}
+      onPress={onPress}
+      accessibilityLabel={t('notifications.open', { count: unreadCount })}
+    >
+      <MaterialIcons name={unreadCount > 0 ? 'notifications-active' : 'notifications-none'} size={24} color="#007AFF" />
+      {unreadCount > 0 && (
+        <View style={styles.badge}>
+          <Text style={styles.badgeText}>{unreadCount > 9 ? '9+' : unreadCount}</Text>
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+  },
+  badge: {
+    position: 'absolute',
+    top: 0,
+    right: 10,
+    minWidth: 16,
+    height: 16,
+    paddingHorizontal: 3,
+    borderRadius: 8,
+    backgroundColor: '#EF4444',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  badgeText: {
+    color: 'white',
+    fontSize: 10,
+    fontWeight: '700',
+  },
+});
+
+export default NotificationsBell;
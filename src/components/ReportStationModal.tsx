@@ -0,0 +1,284 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  Switch,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { useTranslation } from 'react-i18next';
+import { StationReportsService, STATION_REPORT_TYPES, StationReportType } from '../services';
+import type { Station } from '../types/ocm';
+import { pick } from '../utils/i18n';
+
+interface ReportStationModalProps {
+  visible: boolean;
+  station: Station;
+  coords?: { latitude: number; longitude: number } | null;
+  onClose: () => void;
+}
+
+export const REPORT_TYPE_ICONS: Record<StationReportType, keyof typeof MaterialIcons.glyphMap> = {
+  brokenConnector: 'power-off',
+  wrongLocation: 'wrong-location',
+  wrongPower: 'bolt',
+  blockedByICE: 'local-gas-station',
+  priceChanged: 'euro',
+  newStation: 'add-location-alt',
+};
+
+// Location matters most when the pin itself is the problem
+const WANTS_LOCATION: StationReportType[] = ['wrongLocation', 'newStation'];
+
+const ReportStationModal: React.FC<ReportStationModalProps> = ({ visible, station, coords, onClose }) => {
+  const { t } = useTranslation();
+  const [type, setType] = useState<StationReportType | null>(null);
+  const [comment, setComment] = useState('');
+  const [photoUri, setPhotoUri] = useState('');
+  const [attachLocation, setAttachLocation] = useState(false);
+  const [sending, setSending] = useState(false);
+
+  // Start from a blank form each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setType(null);
+      setComment('');
+      setPhotoUri('');
+      setAttachLocation(false);
+    }
+  }, [visible]);
+
+  const selectType = (next: StationReportType) => {
+    setType(next);
+    setAttachLocation(!!coords && WANTS_LOCATION.includes(next));
+  };
+
+  const handleSubmit = async () => {
+    if (!type) {
+      Alert.alert(t('common.error'), t('reports.chooseType'));
+      return;
+    }
+
+    setSending(true);
+    try {
+      const sent = await StationReportsService.submitReport({
+        stationId: station.ID,
+        stationName: pick(station.title),
+        type,
+        comment: comment.trim() || undefined,
+        photoUri: photoUri.trim() || undefined,
+        coordinates: attachLocation && coords
+          ? { latitude: coords.latitude, longitude: coords.longitude }
+          : undefined,
+      });
+      onClose();
+      Alert.alert(t('reports.thanks'), sent ? t('reports.sent') : t('reports.queued'));
+    } catch (error) {
+      console.error('Error submitting station report:', error);
+      Alert.alert(t('common.error'), t('reports.error'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <ScrollView showsVerticalScrollIndicator={false}>
+            <Text style={styles.modalTitle}>{t('reports.title')}</Text>
+            <Text style={styles.stationName}>{pick(station.title)}</Text>
+
+            {STATION_REPORT_TYPES.map((option) => {
+              const selected = option === type;
+              return (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.typeRow, selected && styles.typeRowSelected]}
+                  onPress={() => selectType(option)}
+                >
+                  <MaterialIcons
+                    name={REPORT_TYPE_ICONS[option]}
+                    size={20}
+                    color={selected ? '#007AFF' : '#666'}
+                  />
+                  <Text style={[styles.typeText, selected && styles.typeTextSelected]}>
+                    {t(`reports.types.${option}`)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+
+            <Text style={styles.inputLabel}>{t('reports.comment')}</Text>
+            <TextInput
+              style={[styles.modalInput, styles.multiline]}
+              value={comment}
+              onChangeText={setComment}
+              placeholder={t('reports.commentPlaceholder')}
+              multiline
+              maxLength={500}
+            />
+
+            <Text style={styles.inputLabel}>{t('reports.photo')}</Text>
+            <TextInput
+              style={styles.modalInput}
+              value={photoUri}
+              onChangeText={setPhotoUri}
+              placeholder="https://"
+              autoCapitalize="none"
+              keyboardType="url"
+            />
+
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>
+                {coords ? t('reports.attachLocation') : t('reports.locationUnavailable')}
+              </Text>
+              <Switch
+                value={attachLocation}
+                onValueChange={setAttachLocation}
+                disabled={!coords}
+              />
+            </View>
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton]}
+                onPress={onClose}
+                disabled={sending}
+              >
+                <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.sendButton]}
+                onPress={handleSubmit}
+                disabled={sending}
+              >
+                <Text style={styles.sendButtonText}>
+                  {sending ? t('common.loading') : t('reports.send')}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 24,
+    width: '90%',
+    maxWidth: 420,
+    maxHeight: '85%',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+    textAlign: 'center',
+  },
+  stationName: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 4,
+    marginBottom: 20,
+  },
+  typeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    marginBottom: 8,
+  },
+  typeRowSelected: {
+    borderColor: '#007AFF',
+    backgroundColor: '#EFF6FF',
+  },
+  typeText: {
+    fontSize: 15,
+    color: '#333',
+    marginLeft: 12,
+  },
+  typeTextSelected: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  inputLabel: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  modalInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 8,
+    backgroundColor: '#f9f9f9',
+  },
+  multiline: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+    marginBottom: 24,
+  },
+  switchLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+    marginRight: 12,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  modalButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#f0f0f0',
+  },
+  sendButton: {
+    backgroundColor: '#EF4444',
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  sendButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default ReportStationModal;
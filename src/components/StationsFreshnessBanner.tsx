@@ -0,0 +1,55 @@
+import React from 'react';
+import { View, Text, ActivityIndicator, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useStationsFreshness } from '../hooks/useStations';
+
+interface StationsFreshnessBannerProps {
+  style?: StyleProp<ViewStyle>;
+}
+
+// Shown only while the stations on screen were not confirmed by the backend
+const StationsFreshnessBanner: React.FC<StationsFreshnessBannerProps> = ({ style }) => {
+  const { t, i18n } = useTranslation();
+  const { source, asOf, isOffline, isFetching } = useStationsFreshness();
+
+  if (!isOffline || !asOf) return null;
+
+  const date = asOf.toLocaleString(i18n.language, {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+  return (
+    <View style={[styles.container, style]}>
+      <MaterialIcons name="cloud-off" size={16} color="#92400e" />
+      <Text style={styles.text}>
+        {source === 'bundled'
+          ? t('stations.bundledDataAsOf', { date })
+          : t('stations.offlineDataAsOf', { date })}
+      </Text>
+      {isFetching && <ActivityIndicator size="small" color="#92400e" />}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#fef3c7',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  text: {
+    flex: 1,
+    fontSize: 12,
+    color: '#92400e',
+  },
+});
+
+export default StationsFreshnessBanner;
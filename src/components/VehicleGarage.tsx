@@ -0,0 +1,440 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { useTranslation } from 'react-i18next';
+import { UserService, UserProfile, VehicleProfile, CreateVehicleData } from '../services';
+import type { ConnectorType } from '../types/ocm';
+import { CONNECTOR_TYPES, connectorLabelKey } from '../utils/connectors';
+
+interface VehicleGarageProps {
+  userProfile: UserProfile;
+}
+
+type VehicleForm = {
+  make: string;
+  model: string;
+  batteryKWh: string;
+  maxACKW: string;
+  maxDCKW: string;
+  efficiencyKWhPer100Km: string;
+  connectorTypes: ConnectorType[];
+};
+
+const EMPTY_FORM: VehicleForm = {
+  make: '',
+  model: '',
+  batteryKWh: '',
+  maxACKW: '11',
+  maxDCKW: '',
+  efficiencyKWhPer100Km: '17',
+  connectorTypes: ['CCS2', 'Type2Socket'],
+};
+
+const toForm = (v: VehicleProfile): VehicleForm => ({
+  make: v.make,
+  model: v.model,
+  batteryKWh: String(v.batteryKWh),
+  maxACKW: String(v.maxACKW),
+  maxDCKW: String(v.maxDCKW),
+  efficiencyKWhPer100Km: String(v.efficiencyKWhPer100Km),
+  connectorTypes: v.connectorTypes,
+});
+
+const toNumber = (text: string) => Number(text.replace(',', '.'));
+
+// Validate the form; null when a required field is missing or out of range
+const toVehicleData = (form: VehicleForm): CreateVehicleData | null => {
+  const data: CreateVehicleData = {
+    make: form.make.trim(),
+    model: form.model.trim(),
+    batteryKWh: toNumber(form.batteryKWh),
+    maxACKW: toNumber(form.maxACKW),
+    maxDCKW: form.maxDCKW.trim() ? toNumber(form.maxDCKW) : 0,
+    efficiencyKWhPer100Km: toNumber(form.efficiencyKWhPer100Km),
+    connectorTypes: form.connectorTypes,
+  };
+  const valid =
+    data.make.length > 0 &&
+    data.model.length > 0 &&
+    data.batteryKWh > 0 &&
+    data.maxACKW > 0 &&
+    data.maxDCKW >= 0 &&
+    data.efficiencyKWhPer100Km > 0 &&
+    data.connectorTypes.length > 0;
+  return valid ? data : null;
+};
+
+const VehicleGarage: React.FC<VehicleGarageProps> = ({ userProfile }) => {
+  const { t } = useTranslation();
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<VehicleForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const vehicles = userProfile.vehicles || [];
+
+  const openEditor = (vehicle?: VehicleProfile) => {
+    setEditingId(vehicle?.id ?? null);
+    setForm(vehicle ? toForm(vehicle) : EMPTY_FORM);
+    setModalVisible(true);
+  };
+
+  const toggleConnector = (type: ConnectorType) => {
+    setForm((f) => ({
+      ...f,
+      connectorTypes: f.connectorTypes.includes(type)
+        ? f.connectorTypes.filter((c) => c !== type)
+        : [...f.connectorTypes, type],
+    }));
+  };
+
+  const handleSave = async () => {
+    const data = toVehicleData(form);
+    if (!data) {
+      Alert.alert(t('common.error'), t('vehicles.invalid'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editingId) {
+        await UserService.updateVehicle(userProfile.id, editingId, data);
+      } else {
+        await UserService.addVehicle(userProfile.id, data);
+      }
+      setModalVisible(false);
+    } catch (error) {
+      console.error('Error saving vehicle:', error);
+      Alert.alert(t('common.error'), t('profile.errorUpdatingProfile'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSetActive = async (vehicleId: string) => {
+    try {
+      await UserService.setActiveVehicle(userProfile.id, vehicleId);
+    } catch (error) {
+      console.error('Error setting active vehicle:', error);
+      Alert.alert(t('common.error'), t('profile.errorUpdatingProfile'));
+    }
+  };
+
+  const handleRemove = (vehicle: VehicleProfile) => {
+    Alert.alert(
+      t('vehicles.remove'),
+      t('vehicles.confirmRemove', { name: `${vehicle.make} ${vehicle.model}` }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await UserService.removeVehicle(userProfile.id, vehicle.id);
+            } catch (error) {
+              console.error('Error removing vehicle:', error);
+              Alert.alert(t('common.error'), t('profile.errorUpdatingProfile'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const numericFields: Array<[keyof VehicleForm, string]> = [
+    ['batteryKWh', t('vehicles.battery')],
+    ['maxACKW', t('vehicles.maxAC')],
+    ['maxDCKW', t('vehicles.maxDC')],
+    ['efficiencyKWhPer100Km', t('vehicles.efficiency')],
+  ];
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.titleRow}>
+        <Text style={styles.sectionTitle}>{t('vehicles.title')}</Text>
+        <TouchableOpacity onPress={() => openEditor()} accessibilityLabel={t('vehicles.add')}>
+          <MaterialIcons name="add-circle-outline" size={24} color="#007AFF" />
+        </TouchableOpacity>
+      </View>
+
+      {vehicles.length === 0 ? (
+        <Text style={styles.emptyText}>{t('vehicles.empty')}</Text>
+      ) : (
+        vehicles.map((vehicle) => {
+          const isActive = vehicle.id === userProfile.activeVehicleId;
+          return (
+            <View key={vehicle.id} style={styles.vehicleRow}>
+              <TouchableOpacity
+                style={styles.radio}
+                onPress={() => handleSetActive(vehicle.id)}
+                accessibilityLabel={t('vehicles.setActive')}
+              >
+                <MaterialIcons
+                  name={isActive ? 'radio-button-checked' : 'radio-button-unchecked'}
+                  size={22}
+                  color={isActive ? '#10B981' : '#9CA3AF'}
+                />
+              </TouchableOpacity>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.vehicleName}>{vehicle.make} {vehicle.model}</Text>
+                <Text style={styles.vehicleDetail}>
+                  {vehicle.batteryKWh} kWh • AC {vehicle.maxACKW} kW
+                  {vehicle.maxDCKW > 0 ? ` • DC ${vehicle.maxDCKW} kW` : ''}
+                </Text>
+                <Text style={styles.vehicleDetail}>
+                  {vehicle.connectorTypes.map((c) => t(connectorLabelKey(c))).join(', ')}
+                </Text>
+              </View>
+              <TouchableOpacity style={styles.iconButton} onPress={() => openEditor(vehicle)}>
+                <MaterialIcons name="edit" size={20} color="#000000" />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.iconButton} onPress={() => handleRemove(vehicle)}>
+                <MaterialIcons name="delete-outline" size={20} color="#ff3b30" />
+              </TouchableOpacity>
+            </View>
+          );
+        })
+      )}
+
+      <Modal
+        visible={modalVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <Text style={styles.modalTitle}>
+                {editingId ? t('vehicles.edit') : t('vehicles.add')}
+              </Text>
+
+              <Text style={styles.inputLabel}>{t('vehicles.make')}</Text>
+              <TextInput
+                style={styles.modalInput}
+                value={form.make}
+                onChangeText={(make) => setForm((f) => ({ ...f, make }))}
+                placeholder="Tesla"
+              />
+
+              <Text style={styles.inputLabel}>{t('vehicles.model')}</Text>
+              <TextInput
+                style={styles.modalInput}
+                value={form.model}
+                onChangeText={(model) => setForm((f) => ({ ...f, model }))}
+                placeholder="Model 3"
+              />
+
+              <View style={styles.numericGrid}>
+                {numericFields.map(([key, label]) => (
+                  <View key={key} style={styles.numericField}>
+                    <Text style={styles.inputLabel}>{label}</Text>
+                    <TextInput
+                      style={styles.modalInput}
+                      value={form[key] as string}
+                      onChangeText={(value) => setForm((f) => ({ ...f, [key]: value }))}
+                      keyboardType="decimal-pad"
+                      maxLength={6}
+                    />
+                  </View>
+                ))}
+              </View>
+
+              <Text style={styles.inputLabel}>{t('vehicles.connectors')}</Text>
+              <View style={styles.chips}>
+                {CONNECTOR_TYPES.filter((c) => c !== 'Unknown').map((type) => {
+                  const selected = form.connectorTypes.includes(type);
+                  return (
+                    <TouchableOpacity
+                      key={type}
+                      style={[styles.chip, selected && styles.chipSelected]}
+                      onPress={() => toggleConnector(type)}
+                    >
+                      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                        {t(connectorLabelKey(type))}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              <View style={styles.modalButtons}>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.cancelButton]}
+                  onPress={() => setModalVisible(false)}
+                  disabled={saving}
+                >
+                  <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.saveButton]}
+                  onPress={handleSave}
+                  disabled={saving}
+                >
+                  <Text style={styles.saveButtonText}>
+                    {saving ? t('common.loading') : t('common.save')}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 24,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    paddingVertical: 12,
+  },
+  vehicleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  radio: {
+    marginRight: 12,
+  },
+  vehicleName: {
+    fontSize: 16,
+    color: '#333',
+    fontWeight: '600',
+  },
+  vehicleDetail: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 24,
+    width: '90%',
+    maxWidth: 420,
+    maxHeight: '85%',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  inputLabel: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 4,
+  },
+  modalInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+    backgroundColor: '#f9f9f9',
+  },
+  numericGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  numericField: {
+    width: '48%',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 24,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#f9f9f9',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  modalButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#f0f0f0',
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default VehicleGarage;
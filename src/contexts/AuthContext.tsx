@@ -15,7 +15,7 @@ import {
   EmailAuthProvider
 } from 'firebase/auth';
 import { auth } from '../config/firebase';
-import { UserService, CreateUserProfileData } from '../services';
+import { UserService, FavoritesService, CreateUserProfileData } from '../services';
 import { setStoredLanguage } from '../utils/i18n';
 import { getAuthErrorTranslationKey } from '../utils/authErrors';
 
@@ -69,6 +69,20 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         } catch (error) {
           console.error('Error syncing user language preference:', error);
         }
+
+        // Accounts from before favorites had their own documents
+        try {
+          await FavoritesService.migrateLegacyFavorites(user.uid);
+        } catch (error) {
+          console.error('Error migrating favorites:', error);
+        }
+
+        // Favorites saved in guest mode join the account on sign-up or login
+        try {
+          await FavoritesService.mergeGuestFavorites(user.uid);
+        } catch (error) {
+          console.error('Error merging guest favorites:', error);
+        }
       } else {
         setIsEmailVerified(false);
       }
@@ -1,4 +1,9 @@
 // src/hooks/index.ts
-export { useStations } from './useStations';
+export { useStations, useStationsFreshness, useStationSightings, useNewStations } from './useStations';
 export { useUserLocation } from './useUserLocation';
 export { useFavorites } from './useFavorites';
+export { useActiveVehicle } from './useActiveVehicle';
+export { useStationCheckIns } from './useStationCheckIns';
+export { useFavoriteAlerts } from './useFavoriteAlerts';
+export { useNewStationAlerts } from './useNewStationAlerts';
+export { useNotificationInbox } from './useNotificationInbox';
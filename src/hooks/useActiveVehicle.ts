@@ -0,0 +1,30 @@
+// src/hooks/useActiveVehicle.ts
+import { useState, useEffect } from 'react';
+import { useAuth } from '../contexts';
+import { UserService, VehicleProfile } from '../services';
+
+// The signed-in user's garage and the vehicle currently selected in it
+export const useActiveVehicle = () => {
+  const { user, isGuest } = useAuth();
+  const [vehicles, setVehicles] = useState<VehicleProfile[]>([]);
+  const [activeVehicle, setActiveVehicle] = useState<VehicleProfile | null>(null);
+
+  useEffect(() => {
+    if (!user || isGuest) {
+      setVehicles([]);
+      setActiveVehicle(null);
+      return;
+    }
+
+    const unsubscribe = UserService.subscribeToCurrentUserProfile((profile) => {
+      setVehicles(profile?.vehicles || []);
+      setActiveVehicle(UserService.getActiveVehicle(profile));
+    });
+
+    return unsubscribe;
+  }, [user, isGuest]);
+
+  return { vehicles, activeVehicle };
+};
+
+export default useActiveVehicle;
@@ -0,0 +1,41 @@
+// src/hooks/useFavoriteAlerts.ts
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { useStations, useStationsFreshness } from './useStations';
+import { defaultStatusProvider, stationStatusQueryOptions } from '../api/statusProvider';
+import { useFavorites } from './useFavorites';
+import { checkFavoriteChanges } from '../services/favoriteAlerts';
+import { connectorLabelKey } from '../utils/connectors';
+import type { StationChange } from '../utils/stationChanges';
+
+// Watch favorites with alerts on and notify when a refresh changes them
+export const useFavoriteAlerts = () => {
+  const { data: stations } = useStations();
+  const { source } = useStationsFreshness();
+  const { isFetched: statusesFetched } = useQuery(stationStatusQueryOptions);
+  const { favorites } = useFavorites();
+  const { t } = useTranslation();
+
+  // Cached or bundled stations, or ones still waiting for their live statuses,
+  // would read as changes; only diff a network refresh once statuses are in
+  const fresh = source === 'network' && (defaultStatusProvider == null || statusesFetched);
+
+  useEffect(() => {
+    if (!fresh || !stations || favorites.length === 0) return;
+
+    const describe = (change: StationChange) => ({
+      title: change.stationName,
+      stationId: change.stationId,
+      body: t(`favoriteAlerts.${change.kind}`, {
+        connectors: change.connectorsAdded?.map((type) => t(connectorLabelKey(type))).join(', '),
+        before: change.price?.before,
+        after: change.price?.after,
+      }),
+    });
+
+    checkFavoriteChanges(stations, favorites, describe).catch((error) => {
+      console.error('Error checking favorite changes:', error);
+    });
+  }, [fresh, stations, favorites, t]);
+};
@@ -1,51 +1,66 @@
 // src/hooks/useFavorites.ts
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useCallback } from 'react';
 import { useAuth } from '../contexts';
-import { FavoritesService, CreateFavoriteData } from '../services';
+import { FavoritesService, CreateFavoriteData, FavoriteStation, FavoriteList, UpdateFavoriteData } from '../services';
 
 export const useFavorites = () => {
-  const { user } = useAuth();
-  const [favoriteStationIds, setFavoriteStationIds] = useState<string[]>([]);
+  const { user, isGuest } = useAuth();
+  // Guests keep favorites on the device; FavoritesService picks the store
+  const canSave = !!user || isGuest;
+  const [favorites, setFavorites] = useState<FavoriteStation[]>([]);
+  const [lists, setLists] = useState<FavoriteList[]>([]);
   const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
+  const favoriteStationIds = useMemo(() => favorites.map((f) => f.stationId), [favorites]);
+
   // Load favorites on mount and when user changes
   useEffect(() => {
-    if (!user) {
-      setFavoriteStationIds([]);
+    if (!canSave) {
+      setFavorites([]);
       return;
     }
 
     setLoading(true);
-    setError(null);
+    setLoadError(null);
 
     const loadFavorites = async () => {
       try {
-        const userFavoriteIds = await FavoritesService.getUserFavoriteStationIds();
-        setFavoriteStationIds(userFavoriteIds);
+        setFavorites(await FavoritesService.getUserFavorites());
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load favorites');
+        setLoadError(err instanceof Error ? err.message : 'Failed to load favorites');
       } finally {
         setLoading(false);
       }
     };
 
     loadFavorites();
-  }, [user]);
+  }, [user, canSave]);
 
   // Subscribe to real-time updates
   useEffect(() => {
-    if (!user) return;
+    if (!canSave) return;
 
-    const unsubscribe = FavoritesService.subscribeToUserFavorites((userFavoriteIds) => {
-      setFavoriteStationIds(userFavoriteIds);
+    const unsubscribe = FavoritesService.subscribeToUserFavorites((userFavorites) => {
+      setFavorites(userFavorites);
     });
 
     return unsubscribe;
+  }, [user, canSave]);
+
+  // Lists sync the same way, so edits on another device show up here
+  useEffect(() => {
+    if (!user) {
+      setLists([]);
+      return;
+    }
+
+    return FavoritesService.subscribeToFavoriteLists(setLists);
   }, [user]);
 
   const addToFavorites = async (data: CreateFavoriteData): Promise<boolean> => {
-    if (!user) {
+    if (!canSave) {
       setError('User must be authenticated to add favorites');
       return false;
     }
@@ -61,7 +76,7 @@ export const useFavorites = () => {
   };
 
   const removeFromFavorites = async (stationId: string): Promise<boolean> => {
-    if (!user) {
+    if (!canSave) {
       setError('User must be authenticated to remove favorites');
       return false;
     }
@@ -86,6 +101,78 @@ export const useFavorites = () => {
     }
   };
 
+  const updateFavorite = async (stationId: string, updates: UpdateFavoriteData): Promise<boolean> => {
+    try {
+      setError(null);
+      await FavoritesService.updateFavorite(stationId, updates);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update favorite');
+      return false;
+    }
+  };
+
+  // Apply the new order locally straight away; the subscription confirms it
+  const reorderFavorites = async (stationIds: string[]): Promise<boolean> => {
+    const previous = favorites;
+    setFavorites(stationIds
+      .map((id) => favorites.find((f) => f.stationId === id))
+      .filter((f): f is FavoriteStation => !!f));
+    try {
+      setError(null);
+      await FavoritesService.reorderFavorites(stationIds);
+      return true;
+    } catch (err) {
+      setFavorites(previous);
+      setError(err instanceof Error ? err.message : 'Failed to reorder favorites');
+      return false;
+    }
+  };
+
+  // Returns the new list's ID, or null when it could not be created
+  const createList = async (name: string, stationIds: string[] = []): Promise<string | null> => {
+    try {
+      setError(null);
+      return await FavoritesService.createFavoriteList(name, stationIds);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create list');
+      return null;
+    }
+  };
+
+  const renameList = async (listId: string, name: string): Promise<boolean> => {
+    try {
+      setError(null);
+      await FavoritesService.renameFavoriteList(listId, name);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rename list');
+      return false;
+    }
+  };
+
+  const deleteList = async (listId: string): Promise<boolean> => {
+    try {
+      setError(null);
+      await FavoritesService.deleteFavoriteList(listId);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete list');
+      return false;
+    }
+  };
+
+  const setStationInList = async (listId: string, stationId: string, included: boolean): Promise<boolean> => {
+    try {
+      setError(null);
+      await FavoritesService.setStationInList(listId, stationId, included);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update list');
+      return false;
+    }
+  };
+
   const isStationFavorited = (stationId: string): boolean => {
     return favoriteStationIds.includes(stationId);
   };
@@ -94,17 +181,24 @@ export const useFavorites = () => {
     return favoriteStationIds.length;
   };
 
-
-
-  const clearError = () => setError(null);
+  const clearError = useCallback(() => setError(null), []);
 
   return {
+    favorites,
     favoriteStationIds,
     loading,
+    loadError,
     error,
     addToFavorites,
     removeFromFavorites,
     toggleFavorite,
+    updateFavorite,
+    reorderFavorites,
+    lists,
+    createList,
+    renameList,
+    deleteList,
+    setStationInList,
     isStationFavorited,
     getFavoriteCount,
     clearError,
@@ -0,0 +1,29 @@
+// src/hooks/useNewStationAlerts.ts
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../contexts';
+import { useStationSightings } from './useStations';
+import { UserService, defaultNotifier } from '../services';
+import { matchesNewStationAlerts } from '../api/stationSightings';
+import { pick } from '../utils/i18n';
+import type { Station } from '../types/ocm';
+
+// Record new stations as refreshes bring them in and announce the subscribed ones
+export const useNewStationAlerts = () => {
+  const { user, isGuest } = useAuth();
+  const { t } = useTranslation();
+
+  useStationSightings(async (added: Station[]) => {
+    if (!user || isGuest) return;
+    try {
+      const profile = await UserService.getCurrentUserProfile();
+      const alerts = profile?.preferences?.newStationAlerts;
+      await defaultNotifier.notify(added.filter((s) => matchesNewStationAlerts(s, alerts)).map((station) => ({
+        title: t('whatsNew.alertTitle', { district: pick(station.district) || pick(station.town) }),
+        body: `${pick(station.title)}, ${station.operator}`,
+        stationId: station.ID,
+      })));
+    } catch (error) {
+      console.error('Error announcing new stations:', error);
+    }
+  });
+};
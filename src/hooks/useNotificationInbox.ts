@@ -0,0 +1,38 @@
+// src/hooks/useNotificationInbox.ts
+import { useCallback, useEffect, useState } from 'react';
+import { AppNotification, getNotificationInbox, markNotificationsRead } from '../services';
+import { eventEmitter, EVENTS } from '../utils/eventEmitter';
+
+// The on-device notification inbox, newest first, kept current as notifications arrive or are read
+export const useNotificationInbox = () => {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+
+  useEffect(() => {
+    let active = true;
+    const load = () => {
+      getNotificationInbox().then((inbox) => {
+        if (active) setNotifications(inbox);
+      });
+    };
+
+    load();
+    eventEmitter.on(EVENTS.NOTIFICATIONS_RECEIVED, load);
+    eventEmitter.on(EVENTS.NOTIFICATIONS_READ, load);
+    return () => {
+      active = false;
+      eventEmitter.off(EVENTS.NOTIFICATIONS_RECEIVED, load);
+      eventEmitter.off(EVENTS.NOTIFICATIONS_READ, load);
+    };
+  }, []);
+
+  const markAllRead = useCallback(() => {
+    markNotificationsRead().catch((error) => {
+      console.error('Error marking notifications read:', error);
+    });
+  }, []);
+
+  const unreadCount = notifications.filter((n) => !n.read).length;
+  return { notifications, unreadCount, markAllRead };
+};
+
+export default useNotificationInbox;
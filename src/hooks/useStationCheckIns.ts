@@ -0,0 +1,23 @@
+// src/hooks/useStationCheckIns.ts
+import { useState, useEffect } from 'react';
+import { CheckInsService, CheckIn } from '../services';
+
+// Live list of a station's recent check-ins
+export const useStationCheckIns = (stationId: string) => {
+  const [checkIns, setCheckIns] = useState<CheckIn[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    const unsubscribe = CheckInsService.subscribeToStationCheckIns(stationId, (latest) => {
+      setCheckIns(latest);
+      setLoading(false);
+    });
+
+    return unsubscribe;
+  }, [stationId]);
+
+  return { checkIns, loading };
+};
+
+export default useStationCheckIns;
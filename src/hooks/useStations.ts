@@ -1,36 +1,96 @@
-import { useMemo } from "react";
-import { useQuery } from "@tanstack/react-query";
-import AsyncStorage from "@react-native-async-storage/async-storage";
-import { fetchStations } from "../api/api";
+import { useEffect, useMemo, useRef } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { stationsQueryOptions, type StationsSnapshot, type StationsSource } from "../api/stationCache";
+import { mergeStationStatuses, stationStatusQueryOptions } from "../api/statusProvider";
+import { stationActivityQueryOptions, withReliability } from "../api/stationActivity";
+import { recentlyAddedStations, recordStationSightings, stationSightingsQueryOptions } from "../api/stationSightings";
 import type { Station, StationFeature } from "../types/ocm";
 import useUserLocation from "./useUserLocation";
 import { haversineDistanceMeters } from "../utils/geo";
 
-const CACHE_KEY = "stations-cache-v1";
-
 function toFeatures(list: Station[]): StationFeature[] {
   return list.map((s) => ({
     id: s.ID,
     coord: { lat: s.latitude, lng: s.longitude },
     fastDC: s.connections.some(c => c.current.includes("DC") && c.powerKW >= 50),
-    connectorSet: new Set(s.connections.map(c => c.type)),
+    connectorSet: new Set(s.connections.map(c => c.connectorType)),
     townEn: s.town.en || "",
     operator: s.operator || "Unknown",
     station: s
   }));
 }
 
+export type StationsFreshness = {
+  source: StationsSource;
+  asOf: Date;
+  isOffline: boolean;           // not confirmed by the backend on the last refresh
+};
+
+const selectStations = (snapshot: StationsSnapshot) => snapshot.stations;
+
+const selectFreshness = (snapshot: StationsSnapshot): StationsFreshness => ({
+  source: snapshot.source,
+  asOf: new Date(snapshot.savedAt),
+  isOffline: snapshot.source !== "network"
+});
+
+// Stations with live connector statuses overlaid, when a status provider is
+// configured, and a reliability score from community check-ins and reports
 export function useStations() {
-  return useQuery<Station[]>({
-    queryKey: ["stations"],
-    queryFn: async () => {
-      const data = await fetchStations();
-      // cache
-      await AsyncStorage.setItem(CACHE_KEY, JSON.stringify(data));
-      return data;
-    },
-    staleTime: 1000 * 60 * 5
-  });
+  const q = useQuery({ ...stationsQueryOptions, select: selectStations });
+  const { data: statuses } = useQuery(stationStatusQueryOptions);
+  const { data: activity } = useQuery(stationActivityQueryOptions);
+
+  const data = useMemo(() => {
+    if (!q.data) return q.data;
+    const live = statuses ? mergeStationStatuses(q.data, statuses) : q.data;
+    return withReliability(live, activity);
+  }, [q.data, statuses, activity]);
+
+  return { ...q, data } as typeof q;
+}
+
+// "Data as of …" state for the stations currently in the query cache
+export function useStationsFreshness() {
+  const q = useQuery({ ...stationsQueryOptions, select: selectFreshness });
+  return { ...q.data, isFetching: q.isFetching };
+}
+
+/**
+ * Diff station IDs between network refreshes and record when new ones first
+ * appear. Cached and bundled data are skipped: a station only they carry would
+ * otherwise be announced as new. Mount once; the feed reads the results through
+ * useNewStations.
+ * @param onNewStations Called with stations that appeared in this refresh
+ */
+export function useStationSightings(onNewStations?: (stations: Station[]) => void) {
+  const queryClient = useQueryClient();
+  const { data: snapshot } = useQuery(stationsQueryOptions);
+  const callback = useRef(onNewStations);
+  callback.current = onNewStations;
+
+  useEffect(() => {
+    if (!snapshot || snapshot.source !== "network") return;
+    recordStationSightings(snapshot.stations, true)
+      .then(({ sightings, added }) => {
+        queryClient.setQueryData(stationSightingsQueryOptions.queryKey, sightings);
+        if (added.length) callback.current?.(added);
+      })
+      .catch((error) => console.error("Error recording station sightings:", error));
+  }, [snapshot, queryClient]);
+}
+
+// Recently added stations with their first-seen date, newest first
+export function useNewStations() {
+  const { data: stations, isLoading } = useStations();
+  const { data: sightings } = useQuery(stationSightingsQueryOptions);
+
+  const data = useMemo(
+    () => (stations && sightings ? recentlyAddedStations(sightings, stations) : undefined),
+    [stations, sightings]
+  );
+
+  return { data, isLoading };
 }
 
 export function useSortedStations() {
@@ -1,6 +1,7 @@
 import React, { useMemo, useState, useEffect } from "react";
 import { View, Text, Linking, ScrollView, Pressable, Image, Dimensions, Alert } from "react-native";
 import { useStations } from "../hooks/useStations";
+import { independentSources } from "../api/stationAggregator";
 import { pick } from "../utils/i18n";
 import { useTranslation } from 'react-i18next';
 import { formatDistance } from "../utils/units";
@@ -9,7 +10,19 @@ import { eventEmitter, EVENTS } from "../utils/eventEmitter";
 import useUserLocation from "../hooks/useUserLocation";
 import { haversineDistanceMeters } from "../utils/geo";
 import { MaterialIcons, MaterialCommunityIcons } from "@expo/vector-icons";
+import { CONNECTOR_ICONS, connectorLabelKey } from "../utils/connectors";
+import { formatPrice } from "../utils/tariff";
+import ChargeEstimator from "../components/ChargeEstimator";
+import AvailabilityBadge from "../components/AvailabilityBadge";
+import ReportStationModal from "../components/ReportStationModal";
+import CheckInsCard from "../components/CheckInsCard";
+import FavoriteListPicker from "../components/FavoriteListPicker";
+import { LIVE_STATUS_COLORS, liveStatusLabelKey } from "../utils/availability";
 import { useFavorites } from "../hooks/useFavorites";
+import { useActiveVehicle } from "../hooks/useActiveVehicle";
+import { useFilters } from "../store/filters";
+import { compatibleVehicle } from "../utils/stationFilters";
+import { effectivePowerKW } from "../utils/vehicle";
 import { useAuth } from "../contexts";
 
 export default function DetailsScreen({ route }: any) {
@@ -17,8 +30,19 @@ export default function DetailsScreen({ route }: any) {
   const { data } = useStations();
   const { coords } = useUserLocation();
   const { user, isGuest } = useAuth();
-  const { t } = useTranslation();
-  const { isStationFavorited, toggleFavorite, loading: favoritesLoading } = useFavorites();
+  const { t, i18n } = useTranslation();
+  const {
+    isStationFavorited,
+    toggleFavorite,
+    addToFavorites,
+    lists: favoriteLists,
+    createList,
+    setStationInList,
+    loading: favoritesLoading
+  } = useFavorites();
+  const [listPickerVisible, setListPickerVisible] = useState(false);
+  const { activeVehicle } = useActiveVehicle();
+  const powerCap = useFilters(compatibleVehicle);
   const s = useMemo(() => data?.find(x => x.ID === id), [data, id]);
   const [userPreferences, setUserPreferences] = useState<any>(null);
 
@@ -86,6 +110,7 @@ export default function DetailsScreen({ route }: any) {
   const operatorLogo = getOperatorLogo(s.operator);
 
   const [availableMaps, setAvailableMaps] = useState<{ [key: string]: string }>({});
+  const [reportVisible, setReportVisible] = useState(false);
 
   // Check which map apps are installed
   useEffect(() => {
@@ -174,47 +199,24 @@ export default function DetailsScreen({ route }: any) {
   };
 
   const reportIssue = () => {
-    const email = 'evchargermapcyprus@googlegroups.com';
-    const subject = `Report Issue for Station ID ${s.ID}`;
-    const body = `Please describe the issue:\n\n\n\n--- Station Details ---\nStation: ${pick(s.title)}\nAddress: ${pick(s.address)}\nPostcode: ${s.postcode}\nTown: ${s.town?.en}\nDistrict: ${pick(s.district)}\nOperator: ${s.operator}\nConnections: ${s.connections.map(c => c.type).join(', ')}`;
-
-    // Create mailto URL
-    const mailtoUrl = `mailto:${email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
-
-    // Try to open the email app
-    Linking.canOpenURL(mailtoUrl)
-      .then((supported) => {
-        if (supported) {
-          return Linking.openURL(mailtoUrl);
-        } else {
-          // Fallback: show alert with email details
-          Alert.alert(
-            'Email App Not Available',
-            `Please send an email manually to:\n\n${email}\n\nSubject: ${subject}`,
-            [
-              {
-                text: 'Copy Email Address',
-                onPress: () => {
-                  // Note: Clipboard API would need to be imported and used here
-                  // For now, just show the email address
-                  Alert.alert('Email Address', email);
-                }
-              },
-              {
-                text: 'OK',
-                style: 'cancel'
-              }
-            ]
-          );
-        }
-      })
-      .catch((error) => {
-        console.error('Error opening email app:', error);
-        Alert.alert(
-          'Error',
-          'Could not open email app. Please send an email manually to evchargermapcyprus@googlegroups.com'
-        );
-      });
+    if (!user || isGuest) {
+      Alert.alert(t('reports.title'), t('reports.signInRequired'));
+      return;
+    }
+    setReportVisible(true);
+  };
+
+  const favoriteData = {
+    stationId: s.ID,
+    stationName: pick(s.title),
+    stationAddress: `${pick(s.address)}, ${s.town?.en}`,
+    stationOperator: s.operator,
+  };
+
+  // Lists only hold favorites, so long-pressing the heart favorites the station first
+  const openListPicker = async () => {
+    if (!isStationFavorited(s.ID) && !(await addToFavorites(favoriteData))) return;
+    setListPickerVisible(true);
   };
 
   return (
@@ -236,18 +238,17 @@ export default function DetailsScreen({ route }: any) {
             {pick(s.address)}, {s.town?.en}
           </Text>
 
+          {/* Live availability */}
+          <AvailabilityBadge station={s} style={{ marginBottom: 16 }} />
+
           {/* Favorite Button */}
-          {user && (
-            <View style={{ marginBottom: 16 }}>
+          {(user || isGuest) && (
+            <View style={{ marginBottom: 16, flexDirection: "row", alignItems: "center", gap: 8 }}>
               <Pressable
                 onPress={() => {
-                  toggleFavorite({
-                    stationId: s.ID,
-                    stationName: pick(s.title),
-                    stationAddress: `${pick(s.address)}, ${s.town?.en}`,
-                    stationOperator: s.operator,
-                  });
+                  toggleFavorite(favoriteData);
                 }}
+                onLongPress={user ? openListPicker : undefined}
                 style={({ pressed }) => ({
                   flexDirection: 'row',
                   alignItems: 'center',
@@ -273,6 +274,26 @@ export default function DetailsScreen({ route }: any) {
                   {isStationFavorited(s.ID) ? t('details.removeFromFavorites') : t('details.addToFavorites')}
                 </Text>
               </Pressable>
+              {/* Lists need an account */}
+              {user && isStationFavorited(s.ID) && (
+                <Pressable
+                  onPress={openListPicker}
+                  style={({ pressed }) => ({
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    backgroundColor: '#f3f4f6',
+                    paddingHorizontal: 12,
+                    paddingVertical: 8,
+                    borderRadius: 20,
+                    opacity: pressed ? 0.7 : 1,
+                  })}
+                >
+                  <MaterialIcons name="playlist-add" size={20} color="#6b7280" />
+                  <Text style={{ marginLeft: 6, fontSize: 14, fontWeight: '600', color: '#6b7280' }}>
+                    {t('favoriteLists.lists')}
+                  </Text>
+                </Pressable>
+              )}
             </View>
           )}
 
@@ -368,10 +389,7 @@ export default function DetailsScreen({ route }: any) {
                   marginRight: 20
                 }}>
                   <MaterialCommunityIcons
-                    name={(connection.type === "CCS (Type 2)" ? "ev-plug-ccs2" :
-                      connection.type === "CHAdeMO" ? "ev-plug-chademo" :
-                        connection.type === "Type 2 (Socket Only)" ? "ev-plug-type2" :
-                          "power-plug") as any}
+                    name={CONNECTOR_ICONS[connection.connectorType]}
                     size={36}
                     color="#111827"
                   />
@@ -379,17 +397,126 @@ export default function DetailsScreen({ route }: any) {
 
                 <View style={{ flex: 1 }}>
                   <Text style={{ fontSize: 14, fontWeight: "700", color: "#111827", marginBottom: 4 }}>
-                    {connection.type}
+                    {t(connectorLabelKey(connection.connectorType))}
                   </Text>
                   <Text style={{ fontSize: 12, color: "#374151" }}>
-                    {connection.powerKW} kW • {connection.current} • qty {connection.quantity || 1}
+                    {effectivePowerKW(connection, powerCap)} kW
+                    {effectivePowerKW(connection, powerCap) < connection.powerKW ? ` (${t('details.ratedPower', { kw: connection.powerKW })})` : ""}
+                    {" "}• {connection.current} • qty {connection.quantity || 1}
                   </Text>
                 </View>
+
+                {/* Live connector status */}
+                {connection.liveStatus && (
+                  <Text style={{ fontSize: 12, fontWeight: "700", color: LIVE_STATUS_COLORS[connection.liveStatus] }}>
+                    {t(liveStatusLabelKey(connection.liveStatus))}
+                  </Text>
+                )}
               </View>
             </View>
           ))}
         </View>
 
+        {/* Pricing Card */}
+        <View style={{
+          backgroundColor: "#FFFFFF",
+          borderRadius: 16,
+          padding: 16,
+          borderWidth: 1,
+          borderColor: "#E5E7EB"
+        }}>
+          <Text style={{ fontSize: 16, fontWeight: "700", color: "#111827", marginBottom: 12 }}>
+            {t('details.usageCost')}
+          </Text>
+
+          {s.tariff ? (() => {
+            const tariff = s.tariff;
+            const price = (amount: number) => formatPrice(amount, tariff.currency, i18n.language);
+            const rows: Array<[string, string]> = [];
+            if (tariff.pricePerKWh != null) rows.push([t('details.pricePerKWh'), tariff.pricePerKWh === 0 ? t('details.free') : price(tariff.pricePerKWh)]);
+            if (tariff.pricePerMinute != null) rows.push([t('details.pricePerMinute'), price(tariff.pricePerMinute)]);
+            if (tariff.sessionFee != null) rows.push([t('details.sessionFee'), price(tariff.sessionFee)]);
+            if (tariff.idleFeePerMinute != null) rows.push([t('details.idleFee'), `${price(tariff.idleFeePerMinute)} / min`]);
+            tariff.windows.forEach((w) => {
+              const parts = [
+                w.pricePerKWh != null ? `${price(w.pricePerKWh)} / kWh` : null,
+                w.pricePerMinute != null ? `${price(w.pricePerMinute)} / min` : null
+              ].filter(Boolean);
+              rows.push([`${w.start}–${w.end}`, parts.join(' + ')]);
+            });
+
+            return (
+              <View style={{ gap: 8 }}>
+                {rows.map(([label, value]) => (
+                  <View key={label} style={{ flexDirection: "row", justifyContent: "space-between" }}>
+                    <Text style={{ fontSize: 14, color: "#374151" }}>{label}</Text>
+                    <Text style={{ fontSize: 14, fontWeight: "700", color: "#111827" }}>{value}</Text>
+                  </View>
+                ))}
+              </View>
+            );
+          })() : (
+            <Text style={{ fontSize: 14, color: "#6B7280" }}>
+              {s.usage_cost && s.usage_cost !== 'Unknown' ? s.usage_cost : t('details.unknown')}
+            </Text>
+          )}
+        </View>
+
+        {/* Charging time and cost calculator */}
+        <ChargeEstimator
+          key={activeVehicle?.id ?? "default"}
+          station={s}
+          batteryKWh={activeVehicle?.batteryKWh}
+          maxACKW={activeVehicle?.maxACKW}
+          maxDCKW={activeVehicle?.maxDCKW || undefined}
+        />
+
+        {/* Community check-ins */}
+        <CheckInsCard station={s} canCheckIn={!!user && !isGuest} />
+
+        {/* Data provenance */}
+        {s.sources && s.sources.length > 0 && (
+          <View style={{
+            backgroundColor: "#FFFFFF",
+            borderRadius: 16,
+            padding: 16,
+            borderWidth: 1,
+            borderColor: "#E5E7EB"
+          }}>
+            <Text style={{ fontSize: 16, fontWeight: "700", color: "#111827", marginBottom: 8 }}>
+              {t('provenance.title')}
+            </Text>
+            <Text style={{ fontSize: 14, color: "#374151", marginBottom: 8 }}>
+              {t('provenance.summary', {
+                source: t(`sources.${s.provenance?.connections?.source ?? s.sources[0]}`),
+                date: new Date(s.last_seen).toLocaleDateString(i18n.language, { day: "numeric", month: "short", year: "numeric" })
+              })}
+            </Text>
+            <View style={{ flexDirection: "row", alignItems: "center", gap: 6, marginBottom: s.sources.length > 1 ? 12 : 0 }}>
+              <MaterialIcons
+                name={s.confirmed ? "verified" : "help-outline"}
+                size={18}
+                color={s.confirmed ? "#10B981" : "#6B7280"}
+              />
+              <Text style={{ fontSize: 13, color: s.confirmed ? "#065F46" : "#6B7280" }}>
+                {!s.confirmed
+                  ? t('provenance.unconfirmed')
+                  : independentSources(s.sources).length > 1
+                    ? t('provenance.confirmedBySources', { count: independentSources(s.sources).length })
+                    : t('provenance.recentlyVerified')}
+              </Text>
+            </View>
+
+            {/* Which feed each field came from, once feeds disagree */}
+            {s.sources.length > 1 && Object.entries(s.provenance ?? {}).map(([field, origin]) => (
+              <View key={field} style={{ flexDirection: "row", justifyContent: "space-between", paddingVertical: 4 }}>
+                <Text style={{ fontSize: 12, color: "#6B7280" }}>{t(`provenance.fields.${field}`)}</Text>
+                <Text style={{ fontSize: 12, color: "#111827", fontWeight: "600" }}>{t(`sources.${origin!.source}`)}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Get Directions Button */}
         <Pressable
           onPress={openDirections}
@@ -425,6 +552,23 @@ export default function DetailsScreen({ route }: any) {
             {t('details.reportIssue')}
           </Text>
         </Pressable>
+
+        <ReportStationModal
+          visible={reportVisible}
+          station={s}
+          coords={coords}
+          onClose={() => setReportVisible(false)}
+        />
+
+        <FavoriteListPicker
+          visible={listPickerVisible}
+          stationId={s.ID}
+          stationName={pick(s.title)}
+          lists={favoriteLists}
+          onToggle={(listId, included) => setStationInList(listId, s.ID, included)}
+          onCreate={(name) => createList(name, [s.ID])}
+          onClose={() => setListPickerVisible(false)}
+        />
       </View>
     </ScrollView>
   );
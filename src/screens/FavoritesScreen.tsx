@@ -1,8 +1,9 @@
 import React, { useMemo, useState, useEffect } from 'react';
-import { FlatList, View, Text, Pressable, SafeAreaView, ActivityIndicator, StyleSheet, Image } from 'react-native';
+import { FlatList, View, Text, Pressable, SafeAreaView, ActivityIndicator, StyleSheet, Image, ScrollView, Alert, Share } from 'react-native';
 import { useAuth } from '../contexts';
 import { useFavorites } from '../hooks';
-import { Station } from '../types/ocm';
+import { useStations } from '../hooks/useStations';
+import { Station, Connection } from '../types/ocm';
 import useUserLocation from '../hooks/useUserLocation';
 import { haversineDistanceMeters } from '../utils/geo';
 import { pick } from '../utils/i18n';
@@ -11,18 +12,64 @@ import { formatDistance } from '../utils/units';
 import { UserService } from '../services';
 import { eventEmitter, EVENTS } from '../utils/eventEmitter';
 import { MaterialIcons, MaterialCommunityIcons } from '@expo/vector-icons';
+import { CONNECTOR_ICONS, connectorLabelKey } from '../utils/connectors';
+import { useFilters } from '../store/filters';
+import { filterStations, compatibleVehicle } from '../utils/stationFilters';
+import { effectivePowerKW } from '../utils/vehicle';
+import FavoriteEditorModal, { favoriteLabelText } from '../components/FavoriteEditorModal';
+import FavoriteListNameModal from '../components/FavoriteListNameModal';
+import type { FavoriteStation, FavoriteList } from '../services';
+
+// A favorite whose station is gone from the feeds, or still listed but deactivated
+type Tombstone = {
+  favorite: FavoriteStation;
+  station?: Station;
+};
 
 const FavoritesScreen: React.FC = ({ navigation }: any) => {
   const { user, isGuest } = useAuth();
-  const { favoriteStationIds, loading, error } = useFavorites();
+  const {
+    favorites,
+    favoriteStationIds,
+    loading,
+    loadError,
+    error,
+    clearError,
+    updateFavorite,
+    reorderFavorites,
+    removeFromFavorites,
+    lists,
+    createList,
+    renameList,
+    deleteList
+  } = useFavorites();
   const { t } = useTranslation();
-  const [favoriteStations, setFavoriteStations] = useState<Station[]>([]);
-  const [stationsLoading, setStationsLoading] = useState(false);
+  const filters = useFilters();
+  const { data: stations, isLoading: stationsLoading } = useStations();
   const { coords } = useUserLocation();
-  const [sortMode, setSortMode] = useState<"nearest" | "az">("az");
+  const [sortMode, setSortMode] = useState<"nearest" | "az" | "custom">("az");
   const [showSort, setShowSort] = useState(false);
   const [userSelectedSort, setUserSelectedSort] = useState(false);
   const [userPreferences, setUserPreferences] = useState<any>(null);
+  const [editing, setEditing] = useState<FavoriteStation | null>(null);
+  const [selectedListId, setSelectedListId] = useState<string | null>(null);
+  const [listNaming, setListNaming] = useState<{ list?: FavoriteList } | null>(null);
+
+  const selectedList = lists.find((l) => l.id === selectedListId) ?? null;
+
+  // Fall back to all favorites when the open list is deleted, here or on another device
+  useEffect(() => {
+    if (selectedListId && !selectedList) setSelectedListId(null);
+  }, [selectedListId, selectedList]);
+
+  // A failed change leaves the list as it was; say so and carry on
+  useEffect(() => {
+    if (error) {
+      Alert.alert(t('common.error'), t('favorites.saveError'), [
+        { text: t('common.ok'), onPress: () => clearError() }
+      ]);
+    }
+  }, [error, clearError, t]);
 
   // Load user preferences
   const loadPreferences = async () => {
@@ -60,41 +107,91 @@ const FavoritesScreen: React.FC = ({ navigation }: any) => {
     }
   }, [coords, sortMode, userSelectedSort]);
 
-  // Fetch the actual station data for favorite IDs
-  useEffect(() => {
-    if (favoriteStationIds && favoriteStationIds.length > 0) {
-      fetchFavoriteStations();
-    } else {
-      setFavoriteStations([]);
+  // Match favorites against the same station data as the map, live statuses included
+  const { favoriteStations, tombstones } = useMemo(() => {
+    const live: Station[] = [];
+    const gone: Tombstone[] = [];
+    if (stations) {
+      const byId = new Map(stations.map((station) => [station.ID, station]));
+      for (const favorite of favorites) {
+        const station = byId.get(favorite.stationId);
+        if (station && station.status !== "inactive") {
+          live.push(station);
+        } else {
+          gone.push({ favorite, station });
+        }
+      }
     }
-  }, [favoriteStationIds]);
+    return { favoriteStations: live, tombstones: gone };
+  }, [stations, favorites]);
 
-  const fetchFavoriteStations = async () => {
-    setStationsLoading(true);
-    try {
-      // Import the stations data from assets - data is already in correct format
-      const stations: Station[] = require('../../assets/charging_points.json');
-      
-      console.log('Total stations loaded:', stations.length);
-      console.log('Favorite station IDs:', favoriteStationIds);
-      
-      // Filter stations to only show favorites
-      const filteredStations = stations.filter(station => 
-        favoriteStationIds.includes(station.ID)
+  const listStations = useMemo(
+    () => selectedList
+      ? favoriteStations.filter((station) => selectedList.stationIds.includes(station.ID))
+      : favoriteStations,
+    [favoriteStations, selectedList]
+  );
+
+  const listTombstones = useMemo(
+    () => selectedList
+      ? tombstones.filter((gone) => selectedList.stationIds.includes(gone.favorite.stationId))
+      : tombstones,
+    [tombstones, selectedList]
+  );
+
+  // Favorites honour the same filters as the map and list
+  const visibleStations = useMemo(
+    () => filterStations(listStations, filters),
+    [listStations, filters]
+  );
+  const hiddenCount = listStations.length - visibleStations.length;
+
+  const shareList = async (list: FavoriteList) => {
+    const lines = favoriteStations
+      .filter((station) => list.stationIds.includes(station.ID))
+      .map((station) =>
+        `• ${pick(station.title)}, ${pick(station.address)}\n  https://www.google.com/maps/search/?api=1&query=${station.latitude},${station.longitude}`
       );
-      
-      console.log('Filtered favorite stations:', filteredStations.length);
-      
-      setFavoriteStations(filteredStations);
+    try {
+      await Share.share({ title: list.name, message: [list.name, '', ...lines].join('\n') });
     } catch (error) {
-      console.error('Error fetching favorite stations:', error);
-    } finally {
-      setStationsLoading(false);
+      console.error('Error sharing favorite list:', error);
     }
   };
 
+  const showListActions = (list: FavoriteList) => {
+    Alert.alert(list.name, undefined, [
+      { text: t('favoriteLists.share'), onPress: () => shareList(list) },
+      { text: t('favoriteLists.rename'), onPress: () => setListNaming({ list }) },
+      {
+        text: t('common.delete'),
+        style: 'destructive',
+        onPress: () => Alert.alert(
+          t('favoriteLists.deleteTitle'),
+          t('favoriteLists.deleteMessage', { name: list.name }),
+          [
+            { text: t('common.cancel'), style: 'cancel' },
+            { text: t('common.delete'), style: 'destructive', onPress: () => deleteList(list.id) }
+          ]
+        )
+      },
+      { text: t('common.cancel'), style: 'cancel' }
+    ]);
+  };
+
+  const renderListTab = (key: string, label: string, active: boolean, onPress: () => void, onLongPress?: () => void) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      onLongPress={onLongPress}
+      style={[styles.listTab, active && styles.listTabActive]}
+    >
+      <Text style={[styles.listTabText, active && styles.listTabTextActive]}>{label}</Text>
+    </Pressable>
+  );
+
   const sorted = useMemo(() => {
-    const list = [...favoriteStations];
+    const list = [...visibleStations];
     if (sortMode === "nearest") {
       if (coords) {
         list.sort((a, b) => {
@@ -122,8 +219,23 @@ const FavoritesScreen: React.FC = ({ navigation }: any) => {
       list.sort((a, b) => a.title.en.localeCompare(b.title.en));
       return list;
     }
+    if (sortMode === "custom") {
+      list.sort((a, b) => favoriteStationIds.indexOf(a.ID) - favoriteStationIds.indexOf(b.ID));
+      return list;
+    }
     return list;
-  }, [favoriteStations, sortMode, coords]);
+  }, [visibleStations, sortMode, coords, favoriteStationIds]);
+
+  // Swap with the neighbour in the full order, so hidden favorites keep their place
+  const moveFavorite = (stationId: string, direction: -1 | 1) => {
+    const order = [...favoriteStationIds];
+    const from = order.indexOf(stationId);
+    const neighbour = sorted[sorted.findIndex((s) => s.ID === stationId) + direction];
+    if (from < 0 || !neighbour) return;
+    const to = order.indexOf(neighbour.ID);
+    [order[from], order[to]] = [order[to], order[from]];
+    reorderFavorites(order);
+  };
 
   const formatDistanceWithUnits = (meters?: number) => {
     if (meters == null) return undefined;
@@ -131,7 +243,8 @@ const FavoritesScreen: React.FC = ({ navigation }: any) => {
     return formatDistance(meters, units);
   };
 
-  const renderStationItem = ({ item }: { item: any }) => {
+  const renderStationItem = ({ item, index }: { item: any; index: number }) => {
+    const favorite = favorites.find((f) => f.stationId === item.ID);
     const distanceMeters = coords ? haversineDistanceMeters(
       coords.latitude,
       coords.longitude,
@@ -160,6 +273,59 @@ const FavoritesScreen: React.FC = ({ navigation }: any) => {
                   {formatDistanceWithUnits(distanceMeters)}
                 </Text>
               )}
+              {/* The user's own labels and notes */}
+              {!!favorite?.labels?.length && (
+                <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 6, marginTop: 4 }}>
+                  {favorite.labels.map((label) => (
+                    <View key={label} style={styles.labelChip}>
+                      <Text style={styles.labelChipText}>{favoriteLabelText(t, label)}</Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+              {!!favorite?.notes && (
+                <Text style={{ fontSize: 13, color: "#444", fontStyle: "italic", marginTop: 4 }} numberOfLines={2}>
+                  {favorite.notes}
+                </Text>
+              )}
+              {favorite && (
+                <View style={{ flexDirection: "row", alignItems: "center", gap: 4, marginTop: 6 }}>
+                  <Pressable onPress={() => setEditing(favorite)} hitSlop={8} style={styles.cardAction}>
+                    <MaterialIcons name="edit-note" size={22} color="#007AFF" />
+                  </Pressable>
+                  <Pressable
+                    onPress={() => updateFavorite(favorite.stationId, { notifyOnChange: !favorite.notifyOnChange })}
+                    hitSlop={8}
+                    style={styles.cardAction}
+                  >
+                    <MaterialIcons
+                      name={favorite.notifyOnChange ? "notifications-active" : "notifications-none"}
+                      size={20}
+                      color={favorite.notifyOnChange ? "#007AFF" : "#999"}
+                    />
+                  </Pressable>
+                  {sortMode === "custom" && (
+                    <>
+                      <Pressable
+                        onPress={() => moveFavorite(item.ID, -1)}
+                        disabled={index === 0}
+                        hitSlop={8}
+                        style={styles.cardAction}
+                      >
+                        <MaterialIcons name="arrow-upward" size={20} color={index === 0 ? "#ccc" : "#333"} />
+                      </Pressable>
+                      <Pressable
+                        onPress={() => moveFavorite(item.ID, 1)}
+                        disabled={index === sorted.length - 1}
+                        hitSlop={8}
+                        style={styles.cardAction}
+                      >
+                        <MaterialIcons name="arrow-downward" size={20} color={index === sorted.length - 1 ? "#ccc" : "#333"} />
+                      </Pressable>
+                    </>
+                  )}
+                </View>
+              )}
             </View>
             {/* Logo */}
             <View style={{
@@ -221,16 +387,13 @@ const FavoritesScreen: React.FC = ({ navigation }: any) => {
                 <View style={{ alignItems: "center" }}>
                   {/* Connector types with icons */}
                   <View style={{ flexDirection: "row", justifyContent: "space-between", marginBottom: 4, width: "100%" }}>
-                    {individualConnections.map((conn: any, index: number) => (
+                    {individualConnections.map((conn: Connection, index: number) => (
                       <View key={index} style={{ flexDirection: "row", alignItems: "center", gap: 4, flex: 1, justifyContent: "center" }}>
                         <Text style={{ fontSize: 10, fontWeight: "600" }}>
                           {conn.quantity || 1}x
                         </Text>
                         <MaterialCommunityIcons
-                          name={(conn.type === "CCS (Type 2)" ? "ev-plug-ccs2" :
-                            conn.type === "CHAdeMO" ? "ev-plug-chademo" :
-                              conn.type === "Type 2 (Socket Only)" ? "ev-plug-type2" :
-                                "power-plug") as any}
+                          name={CONNECTOR_ICONS[conn.connectorType]}
                           size={40}
                           color="#000"
                         />
@@ -240,17 +403,17 @@ const FavoritesScreen: React.FC = ({ navigation }: any) => {
 
                   {/* Type names */}
                   <View style={{ flexDirection: "row", justifyContent: "space-between", width: "100%" }}>
-                    {individualConnections.map((conn: any, index: number) => (
+                    {individualConnections.map((conn: Connection, index: number) => (
                       <Text key={index} style={{ fontSize: 10, color: "#444", textAlign: "center", flex: 1 }}>
-                        {conn.type}
+                        {t(connectorLabelKey(conn.connectorType))}
                       </Text>
                     ))}
                   </View>
 
                   {/* Power information */}
                   <View style={{ flexDirection: "row", justifyContent: "space-between", marginBottom: 4, width: "100%" }}>
-                    {individualConnections.map((conn: any, index: number) => {
-                      const power = conn.powerKW || 0;
+                    {individualConnections.map((conn: Connection, index: number) => {
+                      const power = effectivePowerKW(conn, compatibleVehicle(filters));
                       const currentType = conn.current?.includes("DC") ? "DC" : "AC";
                       return (
                         <Text key={index} style={{ fontSize: 10, color: "#444", textAlign: "center", flex: 1 }}>
@@ -268,11 +431,54 @@ const FavoritesScreen: React.FC = ({ navigation }: any) => {
     );
   };
 
+  // Saved details stand in for the missing record
+  const renderTombstone = ({ favorite, station }: Tombstone) => (
+    <Pressable
+      onPress={station ? () => navigation.navigate("Details", { id: station.ID }) : undefined}
+      disabled={!station}
+    >
+      <View style={{ paddingHorizontal: 18, paddingVertical: 12, borderBottomWidth: 1, borderColor: "#ddd", backgroundColor: "#f7f7f7" }}>
+        <View style={{ flexDirection: "row", alignItems: "center", gap: 6, marginBottom: 4 }}>
+          <MaterialIcons name={station ? "block" : "highlight-off"} size={16} color="#999" />
+          <Text style={{ fontSize: 13, fontWeight: "600", color: "#999" }}>
+            {station ? t('favorites.stationDeactivated') : t('favorites.stationRemoved')}
+          </Text>
+        </View>
+        <Text style={{ fontWeight: "700", fontSize: 18, marginBottom: 2, color: "#888" }}>
+          {favorite.stationName || favorite.stationId}
+        </Text>
+        {!!favorite.stationAddress && (
+          <Text style={{ fontSize: 14, color: "#999", marginBottom: 2 }}>
+            {favorite.stationAddress}
+          </Text>
+        )}
+        {!!favorite.stationOperator && (
+          <Text style={{ fontSize: 14, color: "#999", marginBottom: 2 }}>
+            {favorite.stationOperator}
+          </Text>
+        )}
+        {!!favorite.notes && (
+          <Text style={{ fontSize: 13, color: "#999", fontStyle: "italic", marginTop: 4 }} numberOfLines={2}>
+            {favorite.notes}
+          </Text>
+        )}
+        <Pressable
+          onPress={() => removeFromFavorites(favorite.stationId)}
+          hitSlop={8}
+          style={{ flexDirection: "row", alignItems: "center", gap: 4, marginTop: 8 }}
+        >
+          <MaterialIcons name="delete-outline" size={18} color="#ff3b30" />
+          <Text style={{ fontSize: 14, color: "#ff3b30", fontWeight: "600" }}>{t('favorites.removeFavorite')}</Text>
+        </Pressable>
+      </View>
+    </Pressable>
+  );
+
   const renderEmptyState = () => (
     <View style={styles.emptyContainer}>
       <Text style={styles.emptySubtitle}>
-        {isGuest 
-          ? t('favorites.loginToSaveFavorites')
+        {selectedList
+          ? t('favoriteLists.emptyList')
           : t('favorites.addSomeFavorites')
         }
       </Text>
@@ -312,7 +518,7 @@ const FavoritesScreen: React.FC = ({ navigation }: any) => {
     );
   }
 
-  if (error) {
+  if (loadError) {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.content}>
@@ -321,7 +527,7 @@ const FavoritesScreen: React.FC = ({ navigation }: any) => {
           </View>
           <View style={styles.errorContainer}>
             <Text style={styles.errorText}>
-              Error loading favorites. Please try again.
+              {t('favorites.loadError')}
             </Text>
           </View>
         </View>
@@ -333,10 +539,26 @@ const FavoritesScreen: React.FC = ({ navigation }: any) => {
     <SafeAreaView style={styles.container}>
       <View style={styles.content}>
         <FlatList
-          data={sorted}
-          keyExtractor={(s) => s.ID}
+          data={[...sorted, ...listTombstones]}
+          keyExtractor={(item) => ("favorite" in item ? `gone-${item.favorite.stationId}` : item.ID)}
           ListHeaderComponent={(
             <View style={{ padding: 12, borderBottomWidth: 1, borderColor: "#eee", backgroundColor: "#fff" }}>
+              {/* List tabs; long-press a list to share, rename or delete it */}
+              {user && (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.listTabs}>
+                  {renderListTab('all', t('favoriteLists.all'), !selectedList, () => setSelectedListId(null))}
+                  {lists.map((list) => renderListTab(
+                    list.id,
+                    `${list.name} (${list.stationIds.length})`,
+                    list.id === selectedListId,
+                    () => setSelectedListId(list.id),
+                    () => showListActions(list)
+                  ))}
+                  <Pressable onPress={() => setListNaming({})} style={styles.listTab}>
+                    <MaterialIcons name="add" size={18} color="#007AFF" />
+                  </Pressable>
+                </ScrollView>
+              )}
               <View style={{ flexDirection: "row", justifyContent: "flex-start", alignItems: "center" }}>
                 <Pressable
                   onPress={() => setShowSort((v) => !v)}
@@ -354,10 +576,22 @@ const FavoritesScreen: React.FC = ({ navigation }: any) => {
                   <Text style={{ fontWeight: "700" }}>{t('list.sortBy')}</Text>
                 </Pressable>
               </View>
+              {isGuest && (
+                <Text style={{ marginTop: 8, fontSize: 13, color: "#666" }}>
+                  {t('favorites.guestSavedOnDevice')}
+                </Text>
+              )}
+              {hiddenCount > 0 && (
+                <Text style={{ marginTop: 8, fontSize: 13, color: "#666" }}>
+                  {t('favorites.hiddenByFilters', { count: hiddenCount })}
+                </Text>
+              )}
             </View>
           )}
           ListEmptyComponent={renderEmptyState}
-          renderItem={renderStationItem}
+          renderItem={({ item, index }) =>
+            "favorite" in item ? renderTombstone(item) : renderStationItem({ item, index })
+          }
         />
 
         {/* Overlay to close popups when tapping outside */}
@@ -423,8 +657,44 @@ const FavoritesScreen: React.FC = ({ navigation }: any) => {
             >
               <Text style={{ fontWeight: sortMode === "az" ? "600" : "400" }}>{t('map.alphabetical')}</Text>
             </Pressable>
+            <Pressable 
+              onPress={() => {
+                setSortMode("custom");
+                setUserSelectedSort(true);
+                setShowSort(false);
+              }}
+              style={({ pressed }) => ({
+                paddingVertical: 8,
+                paddingHorizontal: 12,
+                borderRadius: 8,
+                backgroundColor: sortMode === "custom" ? "#ccc" : pressed ? "#f1f1f1" : "transparent"
+              })}
+            >
+              <Text style={{ fontWeight: sortMode === "custom" ? "600" : "400" }}>{t('favorites.customOrder')}</Text>
+            </Pressable>
           </View>
         )}
+
+        <FavoriteEditorModal
+          favorite={editing}
+          onSave={updateFavorite}
+          onClose={() => setEditing(null)}
+        />
+
+        <FavoriteListNameModal
+          visible={!!listNaming}
+          title={listNaming?.list ? t('favoriteLists.rename') : t('favoriteLists.newList')}
+          initialName={listNaming?.list?.name}
+          onSubmit={async (name) => {
+            if (listNaming?.list) {
+              renameList(listNaming.list.id, name);
+            } else {
+              const listId = await createList(name);
+              if (listId) setSelectedListId(listId);
+            }
+          }}
+          onClose={() => setListNaming(null)}
+        />
       </View>
     </SafeAreaView>
   );
@@ -514,6 +784,42 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 22,
   },
+  labelChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: '#EFF6FF',
+  },
+  labelChipText: {
+    fontSize: 12,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  cardAction: {
+    padding: 4,
+  },
+  listTabs: {
+    gap: 8,
+    paddingBottom: 12,
+  },
+  listTab: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(0,0,0,0.05)',
+    justifyContent: 'center',
+  },
+  listTabActive: {
+    backgroundColor: '#007AFF',
+  },
+  listTabText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  listTabTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
 });
 
 export default FavoritesScreen;
@@ -0,0 +1,560 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  Share,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../contexts';
+import { UserService, ChargingSession } from '../services';
+import { useStations } from '../hooks/useStations';
+import { useActiveVehicle } from '../hooks/useActiveVehicle';
+import { HISTORY_CURRENCY, monthlyTotals, sessionsToCsv, summarizeHistory, type UsageCount } from '../utils/chargingHistory';
+import { formatPrice } from '../utils/tariff';
+import { pick } from '../utils/i18n';
+import type { Station } from '../types/ocm';
+
+type SessionForm = {
+  station: Station | null;
+  stationName: string;
+  operator: string;
+  date: string; // YYYY-MM-DD
+  kWh: string;
+  cost: string;
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyForm = (): SessionForm => ({
+  station: null,
+  stationName: '',
+  operator: '',
+  date: today(),
+  kWh: '',
+  cost: '',
+});
+
+const toNumber = (text: string) => Number(text.replace(',', '.'));
+
+const HistoryScreen: React.FC = () => {
+  const { user, isGuest } = useAuth();
+  const { t, i18n } = useTranslation();
+  const { data: stations } = useStations();
+  const { activeVehicle } = useActiveVehicle();
+  const [sessions, setSessions] = useState<ChargingSession[]>([]);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [form, setForm] = useState<SessionForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user || isGuest) {
+      setSessions([]);
+      return;
+    }
+    return UserService.subscribeToChargingSessions(user.uid, setSessions);
+  }, [user, isGuest]);
+
+  const summary = useMemo(
+    () => summarizeHistory(sessions, activeVehicle?.efficiencyKWhPer100Km),
+    [sessions, activeVehicle?.efficiencyKWhPer100Km]
+  );
+  const months = useMemo(() => monthlyTotals(sessions), [sessions]);
+
+  // Stations matching what has been typed, until one is picked
+  const suggestions = useMemo(() => {
+    const q = form.stationName.trim().toLowerCase();
+    if (!stations || form.station || q.length < 2) return [];
+    return stations.filter((s) => pick(s.title).toLowerCase().includes(q)).slice(0, 5);
+  }, [stations, form.station, form.stationName]);
+
+  const price = (amount: number | null | undefined, currency: string = HISTORY_CURRENCY) =>
+    amount != null ? formatPrice(amount, currency, i18n.language) : '—';
+
+  const monthLabel = (month: string) => {
+    const [year, m] = month.split('-').map(Number);
+    return new Date(year, m - 1, 1).toLocaleDateString(i18n.language, { month: 'long', year: 'numeric' });
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    const kWh = toNumber(form.kWh);
+    // A blank cost is unknown, not free
+    const cost = form.cost.trim() ? toNumber(form.cost) : undefined;
+    const startedAt = new Date(`${form.date}T12:00:00`);
+    if (!form.stationName.trim() || !(kWh > 0) || (cost != null && !(cost >= 0)) || isNaN(startedAt.getTime())) {
+      Alert.alert(t('common.error'), t('history.invalid'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await UserService.addChargingSession(user.uid, {
+        stationId: form.station?.ID,
+        stationName: form.stationName.trim(),
+        operator: form.operator.trim(),
+        startedAt,
+        kWh,
+        cost,
+        currency: cost != null ? HISTORY_CURRENCY : undefined,
+        source: 'manual',
+      });
+      setModalVisible(false);
+    } catch (error) {
+      console.error('Error saving charging session:', error);
+      Alert.alert(t('common.error'), t('history.errorSaving'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (session: ChargingSession) => {
+    if (!user) return;
+    Alert.alert(t('history.deleteSession'), t('history.confirmDelete'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('common.delete'),
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await UserService.deleteChargingSession(user.uid, session.id);
+          } catch (error) {
+            console.error('Error deleting charging session:', error);
+            Alert.alert(t('common.error'), t('history.errorSaving'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleExport = async () => {
+    try {
+      await Share.share({ title: 'charging-history.csv', message: sessionsToCsv(sessions) });
+    } catch (error) {
+      console.error('Error exporting charging history:', error);
+    }
+  };
+
+  const renderTop = (title: string, items: UsageCount[]) => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>{title}</Text>
+      {items.map((item) => (
+        <View key={item.name} style={styles.row}>
+          <Text style={styles.rowLabel} numberOfLines={1}>{item.name}</Text>
+          <Text style={styles.rowValue}>
+            {t('history.sessionsCount', { count: item.sessions })} • {Math.round(item.kWh)} kWh
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+
+  if (!user || isGuest) {
+    return (
+      <View style={styles.emptyContainer}>
+        <MaterialIcons name="history" size={64} color="#ccc" />
+        <Text style={styles.emptyText}>{t('history.signInRequired')}</Text>
+      </View>
+    );
+  }
+
+  const stats: Array<[string, string]> = [
+    [t('history.energy'), `${summary.kWh.toFixed(1)} kWh`],
+    [t('history.spent'), price(summary.cost)],
+    [t('history.avgCost'), summary.avgCostPerKWh != null ? `${price(summary.avgCostPerKWh)}/kWh` : '—'],
+    [t('history.co2Saved'), `${Math.round(summary.co2SavedKg)} kg`],
+  ];
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.actions}>
+        <TouchableOpacity style={[styles.actionButton, styles.primaryButton]} onPress={() => { setForm(emptyForm()); setModalVisible(true); }}>
+          <MaterialIcons name="add" size={20} color="white" />
+          <Text style={styles.primaryButtonText}>{t('history.addSession')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.secondaryButton]}
+          onPress={handleExport}
+          disabled={sessions.length === 0}
+        >
+          <MaterialIcons name="file-download" size={20} color="#007AFF" />
+          <Text style={styles.secondaryButtonText}>{t('history.exportCsv')}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {sessions.length === 0 ? (
+        <Text style={styles.emptyText}>{t('history.empty')}</Text>
+      ) : (
+        <>
+          <View style={styles.statsGrid}>
+            {stats.map(([label, value]) => (
+              <View key={label} style={styles.statTile}>
+                <Text style={styles.statValue}>{value}</Text>
+                <Text style={styles.statLabel}>{label}</Text>
+              </View>
+            ))}
+          </View>
+          <Text style={styles.note}>{t('history.co2Note')}</Text>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('history.monthly')}</Text>
+            {months.map((m) => (
+              <View key={m.month} style={styles.row}>
+                <Text style={styles.rowLabel}>{monthLabel(m.month)}</Text>
+                <Text style={styles.rowValue}>
+                  {Math.round(m.kWh)} kWh • {price(m.cost)}
+                  {m.avgCostPerKWh != null ? ` • ${price(m.avgCostPerKWh)}/kWh` : ''}
+                </Text>
+              </View>
+            ))}
+          </View>
+
+          {renderTop(t('history.topStations'), summary.topStations)}
+          {summary.topOperators.length > 0 && renderTop(t('history.topOperators'), summary.topOperators)}
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('history.sessions')}</Text>
+            {sessions.map((session) => (
+              <View key={session.id} style={styles.sessionRow}>
+                <MaterialIcons
+                  name={session.source === 'checkIn' ? 'where-to-vote' : 'edit-note'}
+                  size={20}
+                  color="#666"
+                />
+                <View style={{ flex: 1, marginLeft: 10 }}>
+                  <Text style={styles.sessionTitle} numberOfLines={1}>{session.stationName}</Text>
+                  <Text style={styles.sessionDetail}>
+                    {session.startedAt.toLocaleDateString(i18n.language, { day: 'numeric', month: 'short', year: 'numeric' })}
+                    {' • '}{session.kWh} kWh • {price(session.cost, session.currency)}
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={() => handleDelete(session)} style={styles.iconButton}>
+                  <MaterialIcons name="delete-outline" size={20} color="#ff3b30" />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        </>
+      )}
+
+      <Modal
+        visible={modalVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+              <Text style={styles.modalTitle}>{t('history.addSession')}</Text>
+
+              <Text style={styles.inputLabel}>{t('history.station')}</Text>
+              <TextInput
+                style={styles.modalInput}
+                value={form.stationName}
+                onChangeText={(stationName) => setForm((f) => ({ ...f, stationName, station: null }))}
+                placeholder={t('history.stationPlaceholder')}
+              />
+              {suggestions.map((s) => (
+                <TouchableOpacity
+                  key={s.ID}
+                  style={styles.suggestion}
+                  onPress={() => setForm((f) => ({ ...f, station: s, stationName: pick(s.title), operator: s.operator }))}
+                >
+                  <Text style={styles.suggestionTitle}>{pick(s.title)}</Text>
+                  <Text style={styles.suggestionDetail}>{s.operator}</Text>
+                </TouchableOpacity>
+              ))}
+
+              <Text style={styles.inputLabel}>{t('history.operator')}</Text>
+              <TextInput
+                style={styles.modalInput}
+                value={form.operator}
+                onChangeText={(operator) => setForm((f) => ({ ...f, operator }))}
+              />
+
+              <Text style={styles.inputLabel}>{t('history.date')}</Text>
+              <TextInput
+                style={styles.modalInput}
+                value={form.date}
+                onChangeText={(date) => setForm((f) => ({ ...f, date }))}
+                placeholder="YYYY-MM-DD"
+                maxLength={10}
+              />
+
+              <View style={styles.numericGrid}>
+                <View style={styles.numericField}>
+                  <Text style={styles.inputLabel}>{t('checkIns.energy')}</Text>
+                  <TextInput
+                    style={styles.modalInput}
+                    value={form.kWh}
+                    onChangeText={(kWh) => setForm((f) => ({ ...f, kWh }))}
+                    keyboardType="decimal-pad"
+                    maxLength={6}
+                  />
+                </View>
+                <View style={styles.numericField}>
+                  <Text style={styles.inputLabel}>{t('checkIns.cost', { currency: HISTORY_CURRENCY })}</Text>
+                  <TextInput
+                    style={styles.modalInput}
+                    value={form.cost}
+                    onChangeText={(cost) => setForm((f) => ({ ...f, cost }))}
+                    keyboardType="decimal-pad"
+                    maxLength={7}
+                  />
+                </View>
+              </View>
+
+              <View style={styles.modalButtons}>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.cancelButton]}
+                  onPress={() => setModalVisible(false)}
+                  disabled={saving}
+                >
+                  <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.saveButton]}
+                  onPress={handleSave}
+                  disabled={saving}
+                >
+                  <Text style={styles.saveButtonText}>
+                    {saving ? t('common.loading') : t('common.save')}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F6FA',
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    padding: 12,
+    borderRadius: 8,
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  secondaryButtonText: {
+    color: '#007AFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  statsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    rowGap: 12,
+  },
+  statTile: {
+    width: '48%',
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  statValue: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  note: {
+    fontSize: 11,
+    color: '#6B7280',
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderColor: '#F3F4F6',
+    gap: 8,
+  },
+  rowLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  rowValue: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderColor: '#F3F4F6',
+  },
+  sessionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  sessionDetail: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 24,
+    width: '90%',
+    maxWidth: 420,
+    maxHeight: '85%',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  inputLabel: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 4,
+  },
+  modalInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+    backgroundColor: '#f9f9f9',
+  },
+  suggestion: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginTop: -8,
+    marginBottom: 12,
+    borderRadius: 8,
+    backgroundColor: '#EFF6FF',
+  },
+  suggestionTitle: {
+    fontSize: 14,
+    color: '#111827',
+    fontWeight: '600',
+  },
+  suggestionDetail: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  numericGrid: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  numericField: {
+    width: '48%',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  modalButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#f0f0f0',
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default HistoryScreen;
@@ -11,7 +11,15 @@ import { eventEmitter, EVENTS } from "../utils/eventEmitter";
 import useUserLocation from "../hooks/useUserLocation";
 import { haversineDistanceMeters } from "../utils/geo";
 import { MaterialIcons, MaterialCommunityIcons } from "@expo/vector-icons";
+import { CONNECTOR_ICONS, CONNECTOR_TYPES, connectorLabelKey } from "../utils/connectors";
 import ChargingStationMarker from "@/components/ChargingStationMarker";
+import StationsFreshnessBanner from "@/components/StationsFreshnessBanner";
+import AvailabilityBadge from "@/components/AvailabilityBadge";
+import { matchStation, compatibleVehicle } from "../utils/stationFilters";
+import { effectivePowerKW } from "../utils/vehicle";
+import { referenceCostPerKWh } from "../utils/tariff";
+import { POWER_TIERS, isAnyPower, isSamePowerRange, formatPowerRange } from "../utils/power";
+import { RELIABILITY_PRESETS, reliabilityColor } from "../utils/reliability";
 
 export default function ListScreen({ navigation }: any) {
   const { data } = useStations();
@@ -19,7 +27,7 @@ export default function ListScreen({ navigation }: any) {
   const { coords } = useUserLocation();
   const { user, isGuest } = useAuth();
   const { t } = useTranslation();
-  const [sortMode, setSortMode] = useState<"nearest" | "az">("az");
+  const [sortMode, setSortMode] = useState<"nearest" | "az" | "cheapest">("az");
   const [showFilters, setShowFilters] = useState(false);
   const [showSort, setShowSort] = useState(false);
   const [userSelectedSort, setUserSelectedSort] = useState(false);
@@ -79,7 +87,6 @@ export default function ListScreen({ navigation }: any) {
 
   const filtered = useMemo(() => {
     if (!data) return [];
-    const q = filters.query.toLowerCase().trim();
     return data
       .map(s => {
         const distanceMeters = coords ? haversineDistanceMeters(
@@ -90,66 +97,8 @@ export default function ListScreen({ navigation }: any) {
         ) : undefined;
         return { ...s, distanceMeters };
       })
-      .filter(s => {
-        // District filtering - show all if no specific districts are selected, otherwise filter by selected
-        if (filters.districts.size > 0) {
-          const districtName = pick(s.district).trim();
-          if (!districtName || !filters.districts.has(districtName)) return false;
-        }
-        // Operator filtering - show all if no specific operators are selected, otherwise filter by selected
-        if (filters.operators.size > 0) {
-          if (!filters.operators.has(s.operator)) return false;
-        }
-
-        // Connection-level filtering with AND logic
-        // A station is shown only if it has at least one connection that matches ALL selected criteria
-        const hasMatchingConnection = s.connections.some(connection => {
-          // Current type filtering (AC/DC)
-          if (!filters.acOnly && !filters.dcOnly) return false; // No current type selected
-          if (filters.acOnly && filters.dcOnly) {
-            // Both selected - connection can be either AC or DC
-          } else if (filters.dcOnly && !connection.current.includes("DC")) {
-            return false;
-          } else if (filters.acOnly && !connection.current.includes("AC")) {
-            return false;
-          }
-
-          // Power filtering - connection must match selected power levels
-          if (filters.powerKW.size > 0 && !filters.powerKW.has(connection.powerKW)) {
-            return false;
-          }
-
-          // Connector type filtering - connection must match selected connector types
-          if (filters.connectorTypes.size > 0) {
-            const connectionType = connection.type;
-            let mappedType = "Unknown/Other";
-
-            if (connectionType === "CCS (Type 2)" || connectionType.includes("CCS")) {
-              mappedType = "CCS (Type 2)";
-            } else if (connectionType === "CHAdeMO" || connectionType.includes("CHAdeMO")) {
-              mappedType = "CHAdeMO";
-            } else if (connectionType === "Type 2 (Socket Only)" || connectionType.includes("Type 2")) {
-              mappedType = "Type 2 (Socket Only)";
-            }
-
-            if (!filters.connectorTypes.has(mappedType)) {
-              return false;
-            }
-          }
-
-          // If we reach here, this connection matches all selected criteria
-          return true;
-        });
-
-        if (!hasMatchingConnection) return false;
-
-        // Search query filtering
-        const hay = [
-          pick(s.title), pick(s.address), pick(s.district), s.postcode, s.operator, s.town.en
-        ].join(" ").toLowerCase();
-        return q ? hay.includes(q) : true;
-      });
-  }, [data, filters.query, coords, filters.acOnly, filters.dcOnly, filters.powerKW, filters.connectorTypes, filters.districts, filters.operators]);
+      .filter(s => matchStation(s, filters).matches);
+  }, [data, filters.query, coords, filters.acOnly, filters.dcOnly, filters.powerRange, filters.connectorTypes, filters.districts, filters.operators, filters.onlyOperational, filters.compatibleOnly, filters.vehicle, filters.minReliability]);
 
   const sorted = useMemo(() => {
     const list = [...filtered];
@@ -166,6 +115,15 @@ export default function ListScreen({ navigation }: any) {
       list.sort((a, b) => pick(a.title).localeCompare(pick(b.title)));
       return list;
     }
+    if (sortMode === "cheapest") {
+      // Stations with unknown pricing go last, alphabetically
+      const now = new Date();
+      list.sort((a, b) =>
+        (referenceCostPerKWh(a.tariff, now) - referenceCostPerKWh(b.tariff, now)) ||
+        pick(a.title).localeCompare(pick(b.title))
+      );
+      return list;
+    }
     return list;
   }, [filtered, sortMode, coords]);
 
@@ -214,6 +172,7 @@ export default function ListScreen({ navigation }: any) {
                 <Text style={{ fontWeight: "700" }}>{t('filters.title')}</Text>
               </Pressable>
             </View>
+            <StationsFreshnessBanner style={{ marginTop: 10 }} />
           </View>
         )}
         renderItem={({ item }) => (
@@ -237,6 +196,14 @@ export default function ListScreen({ navigation }: any) {
                       {formatDistanceWithUnits(item.distanceMeters)}
                     </Text>
                   )}
+                  {/* Live availability */}
+                  <AvailabilityBadge station={item} style={{ marginTop: 2 }} />
+                  {/* Reliability score */}
+                  {item.reliability != null && (
+                    <Text style={{ fontSize: 13, fontWeight: "600", color: reliabilityColor(item.reliability), marginTop: 4 }}>
+                      {t('reliability.label', { percent: Math.round(item.reliability * 100) })}
+                    </Text>
+                  )}
                 </View>
                 {/* Logo */}
                 <View style={{
@@ -304,10 +271,7 @@ export default function ListScreen({ navigation }: any) {
                               {conn.quantity || 1}x
                             </Text>
                             <MaterialCommunityIcons
-                              name={(conn.type === "CCS (Type 2)" ? "ev-plug-ccs2" :
-                                conn.type === "CHAdeMO" ? "ev-plug-chademo" :
-                                  conn.type === "Type 2 (Socket Only)" ? "ev-plug-type2" :
-                                    "power-plug") as any}
+                              name={CONNECTOR_ICONS[conn.connectorType]}
                               size={40}
                               color="#000"
                             />
@@ -319,7 +283,7 @@ export default function ListScreen({ navigation }: any) {
                       <View style={{ flexDirection: "row", justifyContent: "space-between", width: "100%" }}>
                         {individualConnections.map((conn, index) => (
                           <Text key={index} style={{ fontSize: 10, color: "#444", textAlign: "center", flex: 1 }}>
-                            {conn.type}
+                            {t(connectorLabelKey(conn.connectorType))}
                           </Text>
                         ))}
                       </View>
@@ -327,7 +291,7 @@ export default function ListScreen({ navigation }: any) {
                       {/* Power information */}
                       <View style={{ flexDirection: "row", justifyContent: "space-between", marginBottom: 4, width: "100%" }}>
                         {individualConnections.map((conn, index) => {
-                          const power = conn.powerKW || 0;
+                          const power = effectivePowerKW(conn, compatibleVehicle(filters));
                           const currentType = conn.current?.includes("DC") ? "DC" : "AC";
                           return (
                             <Text key={index} style={{ fontSize: 10, color: "#444", textAlign: "center", flex: 1 }}>
@@ -409,6 +373,21 @@ export default function ListScreen({ navigation }: any) {
           >
             <Text style={{ fontWeight: sortMode === "az" ? "600" : "400" }}>{t('map.alphabetical')}</Text>
           </Pressable>
+          <Pressable 
+            onPress={() => {
+              setSortMode("cheapest");
+              setUserSelectedSort(true);
+              setShowSort(false);
+            }}
+            style={({ pressed }) => ({
+              paddingVertical: 8,
+              paddingHorizontal: 12,
+              borderRadius: 8,
+              backgroundColor: sortMode === "cheapest" ? "#ccc" : pressed ? "#f1f1f1" : "transparent"
+            })}
+          >
+            <Text style={{ fontWeight: sortMode === "cheapest" ? "600" : "400" }}>{t('list.cheapestFirst')}</Text>
+          </Pressable>
         </View>
       )}
 
@@ -430,6 +409,40 @@ export default function ListScreen({ navigation }: any) {
           maxHeight: 400
         }}>
           <ScrollView showsVerticalScrollIndicator={false}>
+            {/* Compatible with the active vehicle */}
+            {filters.vehicle && (
+              <View style={{ marginBottom: 12 }}>
+                <Text style={{ fontWeight: "600", marginBottom: 6 }}>{t('filters.myCar')}</Text>
+                <Pressable onPress={() => filters.setCompatibleOnly(!filters.compatibleOnly)}>
+                  <View style={{ flexDirection: "row", alignItems: "center", gap: 8, backgroundColor: filters.compatibleOnly ? "#2F80ED" : "#f1f1f1", paddingVertical: 10, paddingHorizontal: 16, borderRadius: 8 }}>
+                    <MaterialIcons name="directions-car" size={20} color={filters.compatibleOnly ? "#fff" : "#111"} />
+                    <Text style={{ color: filters.compatibleOnly ? "#fff" : "#111", fontSize: 16, fontWeight: "500", flexShrink: 1 }}>
+                      {t('filters.compatibleWith', { name: `${filters.vehicle.make} ${filters.vehicle.model}` })}
+                    </Text>
+                  </View>
+                </Pressable>
+              </View>
+            )}
+
+            {/* Minimum reliability */}
+            <View style={{ marginBottom: 12 }}>
+              <Text style={{ fontWeight: "600", marginBottom: 6 }}>{t('filters.minReliability')}</Text>
+              <View style={{ flexDirection: "row", gap: 8 }}>
+                {RELIABILITY_PRESETS.map((value) => {
+                  const selected = filters.minReliability === value;
+                  return (
+                    <Pressable key={value} onPress={() => filters.setMinReliability(value)} style={{ flex: 1 }}>
+                      <View style={{ alignItems: "center", backgroundColor: selected ? "#2F80ED" : "#f1f1f1", paddingVertical: 10, borderRadius: 8 }}>
+                        <Text style={{ color: selected ? "#fff" : "#111", fontSize: 16, fontWeight: "500" }}>
+                          {value === 0 ? t('filters.anyReliability') : `${Math.round(value * 100)}%`}
+                        </Text>
+                      </View>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </View>
+
             {/* AC/DC Segment */}
             <View style={{ marginBottom: 12 }}>
               <Text style={{ fontWeight: "600", marginBottom: 6 }}>{t('filters.current')}</Text>
@@ -480,26 +493,21 @@ export default function ListScreen({ navigation }: any) {
                     flexDirection: "row",
                     alignItems: "center",
                     gap: 8,
-                    backgroundColor: filters.powerKW.size === 4 ? "#2F80ED" : "#f1f1f1",
+                    backgroundColor: isAnyPower(filters.powerRange) ? "#2F80ED" : "#f1f1f1",
                     paddingVertical: 10,
                     paddingHorizontal: 16,
                     borderRadius: 8,
                     minWidth: 100,
                     justifyContent: "center"
                   }}>
-                    <MaterialIcons name="check-circle" size={20} color={filters.powerKW.size === 4 ? "#fff" : "#111"} />
-                    <Text style={{ color: filters.powerKW.size === 4 ? "#fff" : "#111", fontSize: 16, fontWeight: "500" }}>{t('common.all')}</Text>
+                    <MaterialIcons name="check-circle" size={20} color={isAnyPower(filters.powerRange) ? "#fff" : "#111"} />
+                    <Text style={{ color: isAnyPower(filters.powerRange) ? "#fff" : "#111", fontSize: 16, fontWeight: "500" }}>{t('common.all')}</Text>
                   </View>
                 </Pressable>
                  
                  {/* Group power options into rows of 2 */}
                  {(() => {
-                   const powerOptions = [
-                  { power: 7, label: "7kW", color: "#93c5fd" },
-                  { power: 22, label: "22kW", color: "#3b82f6" },
-                  { power: 50, label: "50kW", color: "#8b5cf6" },
-                  { power: 150, label: "150kW", color: "#f97316" }
-                   ];
+                   const powerOptions = POWER_TIERS;
                    
                    const rows = [];
                    for (let i = 0; i < powerOptions.length; i += 2) {
@@ -510,17 +518,17 @@ export default function ListScreen({ navigation }: any) {
                    return rows.map((row, rowIndex) => (
                      <View key={rowIndex} style={{ flexDirection: "row", gap: 8, justifyContent: "center" }}>
                        {row.map((item) => {
-                         const isSelected = filters.powerKW.has(item.power) && filters.powerKW.size === 1;
+                         const isSelected = isSamePowerRange(filters.powerRange, item);
                          const backgroundColor = isSelected ? "#2F80ED" : "#f1f1f1";
                          
                          return (
-                           <Pressable key={item.power} onPress={() => {
-                    // If this specific power is selected and it's the only one, clear it
-                    // If "All" is selected (size === 4) or this power isn't selected, select just this power
-                    if (filters.powerKW.has(item.power) && filters.powerKW.size === 1) {
-                      filters.clearPower();
+                           <Pressable key={item.presetKW} onPress={() => {
+                    // If this tier is already selected, go back to any power
+                    // Otherwise narrow the range to just this tier
+                    if (isSamePowerRange(filters.powerRange, item)) {
+                      filters.selectAllPower();
                     } else {
-                      filters.set(s => ({ powerKW: new Set([item.power]) }));
+                      filters.setPowerRange({ minKW: item.minKW, maxKW: item.maxKW });
                     }
                   }}>
                     <View style={{
@@ -534,14 +542,14 @@ export default function ListScreen({ navigation }: any) {
                                alignItems: "center"
                              }}>
                                <View style={{ width: 50, height: 50, marginBottom: 8 }}>
-                                 <ChargingStationMarker size={50} connections={[{ powerKW: item.power, status: 'Available' }]} />
+                                 <ChargingStationMarker size={50} connections={[{ powerKW: item.presetKW, status: 'Available' }]} />
                                </View>
                                <Text style={{
                                  color: isSelected ? "#fff" : "#111",
                                  fontSize: 16,
                                  fontWeight: "500",
                                  textAlign: "center"
-                               }}>{item.label}</Text>
+                               }}>{formatPowerRange(item)}</Text>
                     </View>
                   </Pressable>
                          );
@@ -562,20 +570,15 @@ export default function ListScreen({ navigation }: any) {
               <Text style={{ fontWeight: "600", marginBottom: 6 }}>{t('filters.type')}</Text>
               <View style={{ gap: 8 }}>
                 <Pressable onPress={() => filters.selectAllConnectorTypes()}>
-                  <View style={{ flexDirection: "row", alignItems: "center", gap: 8, backgroundColor: filters.connectorTypes.size === 4 ? "#2F80ED" : "#f1f1f1", paddingVertical: 10, paddingHorizontal: 16, borderRadius: 8, minWidth: 120, justifyContent: "center" }}>
-                    <MaterialIcons name="check-circle" size={20} color={filters.connectorTypes.size === 4 ? "#fff" : "#111"} />
-                    <Text style={{ color: filters.connectorTypes.size === 4 ? "#fff" : "#111", fontSize: 16, fontWeight: "500" }}>{t('common.all')}</Text>
+                  <View style={{ flexDirection: "row", alignItems: "center", gap: 8, backgroundColor: filters.connectorTypes.size === CONNECTOR_TYPES.length ? "#2F80ED" : "#f1f1f1", paddingVertical: 10, paddingHorizontal: 16, borderRadius: 8, minWidth: 120, justifyContent: "center" }}>
+                    <MaterialIcons name="check-circle" size={20} color={filters.connectorTypes.size === CONNECTOR_TYPES.length ? "#fff" : "#111"} />
+                    <Text style={{ color: filters.connectorTypes.size === CONNECTOR_TYPES.length ? "#fff" : "#111", fontSize: 16, fontWeight: "500" }}>{t('common.all')}</Text>
                   </View>
                 </Pressable>
                  
                  {/* Group connector types into rows of 2 */}
                  {(() => {
-                   const connectorTypes = [
-                     { type: "CCS (Type 2)", icon: "ev-plug-ccs2" },
-                     { type: "CHAdeMO", icon: "ev-plug-chademo" },
-                     { type: "Type 2 (Socket Only)", icon: "ev-plug-type2" },
-                     { type: "Unknown/Other", icon: "power-plug" }
-                   ];
+                   const connectorTypes = CONNECTOR_TYPES.map((type) => ({ type, icon: CONNECTOR_ICONS[type] }));
                    
                    const rows = [];
                    for (let i = 0; i < connectorTypes.length; i += 2) {
@@ -592,7 +595,7 @@ export default function ListScreen({ navigation }: any) {
                          return (
                            <Pressable key={item.type} onPress={() => {
                     // If this specific type is selected and it's the only one, clear it
-                    // If "All" is selected (size === 4) or this type isn't selected, select just this type
+                    // If "All" is selected or this type isn't selected, select just this type
                              if (filters.connectorTypes.has(item.type) && filters.connectorTypes.size === 1) {
                       filters.clearConnectorTypes();
                     } else {
@@ -611,7 +614,7 @@ export default function ListScreen({ navigation }: any) {
                              }}>
                                <View style={{ width: 50, height: 50, marginBottom: 8 }}>
                                  <MaterialCommunityIcons 
-                                   name={item.icon as any} 
+                                   name={item.icon} 
                                    size={50} 
                                    color={isSelected ? "#fff" : "#111"} 
                                  />
@@ -621,7 +624,7 @@ export default function ListScreen({ navigation }: any) {
                                  fontSize: 16,
                                  fontWeight: "500",
                                  textAlign: "center"
-                               }}>{item.type}</Text>
+                               }}>{t(connectorLabelKey(item.type))}</Text>
                     </View>
                   </Pressable>
                          );
@@ -1,9 +1,9 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { View, Text, ActivityIndicator, Pressable, Linking, Platform, ScrollView, Image, Dimensions } from "react-native";
 import MapView, { Marker, Callout, PROVIDER_GOOGLE, PROVIDER_DEFAULT, Region } from "react-native-maps";
 import ClusteredMapView from "react-native-map-clustering";
 import { useSortedStations, toFeatures } from "../hooks/useStations";
-import { useFilters } from "../store/filters";
+import { defaultFilters, useFilters } from "../store/filters";
 import { pick } from "../utils/i18n";
 import { useTranslation } from 'react-i18next';
 import { formatDistance } from "../utils/units";
@@ -13,10 +13,18 @@ import { eventEmitter, EVENTS } from "../utils/eventEmitter";
 import type { StationFeature } from "../types/ocm";
 import useUserLocation from "../hooks/useUserLocation";
 import { MaterialIcons, MaterialCommunityIcons } from "@expo/vector-icons";
+import { CONNECTOR_ICONS, CONNECTOR_TYPES, connectorLabelKey } from "../utils/connectors";
 import { haversineDistanceMeters } from "../utils/geo";
 import ChargingStationMarker from "../components/ChargingStationMarker";
-
-export default function MapScreen({ navigation }: any) {
+import { matchStation, compatibleVehicle } from "../utils/stationFilters";
+import { effectivePowerKW } from "../utils/vehicle";
+import { POWER_TIERS, isAnyPower, isSamePowerRange, formatPowerRange } from "../utils/power";
+import { RELIABILITY_PRESETS } from "../utils/reliability";
+import StationsFreshnessBanner from "../components/StationsFreshnessBanner";
+import AvailabilityBadge from "../components/AvailabilityBadge";
+import { mapLinkFilters, type MapLinkParams } from "../utils/deepLinks";
+
+export default function MapScreen({ navigation, route }: any) {
   const { data, isLoading, error } = useSortedStations();
   const filters = useFilters();
   const { coords, status } = useUserLocation();
@@ -76,6 +84,32 @@ export default function MapScreen({ navigation }: any) {
     }
   }, [data, filters]);
 
+  // Apply the filters of a map link (evcy://map?district=…) once the stations are loaded
+  const appliedLinkParams = useRef<MapLinkParams | null>(null);
+  useEffect(() => {
+    const params: MapLinkParams | undefined = route?.params;
+    if (!params || !data || data.length === 0 || appliedLinkParams.current === params) return;
+    appliedLinkParams.current = params;
+
+    // A link describes the whole view, so filters it does not set go back to their defaults
+    const linked = mapLinkFilters(params, data);
+    filters.set(() => ({ ...defaultFilters(), ...linked }));
+
+    // Frame the linked district instead of the user's surroundings
+    const district = linked.districts && [...linked.districts][0];
+    const inDistrict = district ? data.filter((s) => pick(s.district) === district) : [];
+    if (inDistrict.length > 0) {
+      const lats = inDistrict.map((s) => s.latitude);
+      const lngs = inDistrict.map((s) => s.longitude);
+      setRegion({
+        latitude: (Math.min(...lats) + Math.max(...lats)) / 2,
+        longitude: (Math.min(...lngs) + Math.max(...lngs)) / 2,
+        latitudeDelta: Math.max(Math.max(...lats) - Math.min(...lats), 0.02) * 1.3,
+        longitudeDelta: Math.max(Math.max(...lngs) - Math.min(...lngs), 0.02) * 1.3
+      });
+    }
+  }, [route?.params, data]);
+
   // Update map region when user location becomes available/changes
   useEffect(() => {
     if (coords) {
@@ -108,77 +142,7 @@ export default function MapScreen({ navigation }: any) {
       });
     }
 
-    return feats.filter(f => {
-      const s = f.station;
-
-      // District filtering - show all if no specific districts are selected, otherwise filter by selected
-      if (filters.districts.size > 0) {
-        const districtName = pick(s.district).trim();
-        if (!districtName || !filters.districts.has(districtName)) return false;
-      }
-      // Operator filtering - show all if no specific operators are selected, otherwise filter by selected
-      if (filters.operators.size > 0) {
-        if (!filters.operators.has(s.operator)) return false;
-      }
-
-      // Connection-level filtering with AND logic
-      // A station is shown only if it has at least one connection that matches ALL selected criteria
-      const hasMatchingConnection = s.connections.some(connection => {
-        // Current type filtering (AC/DC)
-        if (!filters.acOnly && !filters.dcOnly) return false; // No current type selected
-        if (filters.acOnly && filters.dcOnly) {
-          // Both selected - connection can be either AC or DC
-        } else if (filters.dcOnly && !connection.current.includes("DC")) {
-          return false;
-        } else if (filters.acOnly && !connection.current.includes("AC")) {
-          return false;
-        }
-
-        // Power filtering - connection must match selected power levels
-        if (filters.powerKW.size > 0 && !filters.powerKW.has(connection.powerKW)) {
-          return false;
-        }
-
-        // Connector type filtering - connection must match selected connector types
-        if (filters.connectorTypes.size > 0) {
-          const connectionType = connection.type;
-          let mappedType = "Unknown/Other";
-          
-          if (connectionType === "CCS (Type 2)" || connectionType.includes("CCS")) {
-            mappedType = "CCS (Type 2)";
-          } else if (connectionType === "CHAdeMO" || connectionType.includes("CHAdeMO")) {
-            mappedType = "CHAdeMO";
-          } else if (connectionType === "Type 2 (Socket Only)" || connectionType.includes("Type 2")) {
-            mappedType = "Type 2 (Socket Only)";
-          }
-
-          if (!filters.connectorTypes.has(mappedType)) {
-            return false;
-          }
-        }
-
-        // If we reach here, this connection matches all selected criteria
-        return true;
-      });
-
-      if (!hasMatchingConnection) return false;
-
-      // Search query filtering
-      const q = filters.query.trim().toLowerCase();
-      if (q) {
-        const hay = [
-          s.ID, s.UUID,
-          pick(s.title).toLowerCase(),
-          pick(s.address).toLowerCase(),
-          pick(s.district).toLowerCase(),
-          s.postcode,
-          f.townEn.toLowerCase(),
-          f.operator.toLowerCase()
-        ].join(" ");
-        if (!hay.includes(q)) return false;
-      }
-      return true;
-    });
+    return feats.filter(f => matchStation(f.station, filters).matches);
   }, [data, filters]);
 
   if (isLoading) return <ActivityIndicator style={{ marginTop: 32 }} />;
@@ -210,7 +174,8 @@ export default function MapScreen({ navigation }: any) {
               isFastDC={f.fastDC}
               connectorCount={f.station.connections.length}
               isAvailable={f.station.connections.some(c => c.status === "Operational")}
-              connections={f.station.connections}
+              connections={f.station.connections.map(c => ({ ...c, powerKW: effectivePowerKW(c, compatibleVehicle(filters)) }))}
+              reliability={f.station.reliability}
             />
             <Callout onPress={() => onMarkerPress(f)}>
               <View style={{
@@ -240,6 +205,8 @@ export default function MapScreen({ navigation }: any) {
                         </Text>
                       ) : null;
                     })()}
+                    {/* Live availability */}
+                    <AvailabilityBadge station={f.station} style={{ marginTop: 2 }} />
                   </View>
                   {/* Logo */}
                   <View style={{
@@ -315,10 +282,7 @@ export default function MapScreen({ navigation }: any) {
                                 {conn.quantity || 1}x
                               </Text>
                               <MaterialCommunityIcons
-                                name={(conn.type === "CCS (Type 2)" ? "ev-plug-ccs2" :
-                                  conn.type === "CHAdeMO" ? "ev-plug-chademo" :
-                                    conn.type === "Type 2 (Socket Only)" ? "ev-plug-type2" :
-                                      "power-plug") as any}
+                                name={CONNECTOR_ICONS[conn.connectorType]}
                                 size={40}
                                 color="#000"
                               />
@@ -330,7 +294,7 @@ export default function MapScreen({ navigation }: any) {
                         <View style={{ flexDirection: "row", justifyContent: "space-between", width: "100%" }}>
                           {individualConnections.map((conn, index) => (
                             <Text key={index} style={{ fontSize: 10, color: "#444", textAlign: "center", flex: 1 }}>
-                              {conn.type}
+                              {t(connectorLabelKey(conn.connectorType))}
                             </Text>
                           ))}
                         </View>
@@ -338,7 +302,7 @@ export default function MapScreen({ navigation }: any) {
                         {/* Power information */}
                         <View style={{ flexDirection: "row", justifyContent: "space-between", marginBottom: 4, width: "100%" }}>
                           {individualConnections.map((conn, index) => {
-                            const power = conn.powerKW || 0;
+                            const power = effectivePowerKW(conn, compatibleVehicle(filters));
                             const currentType = conn.current?.includes("DC") ? "DC" : "AC";
                             return (
                               <Text key={index} style={{ fontSize: 10, color: "#444", textAlign: "center", flex: 1 }}>
@@ -357,6 +321,9 @@ export default function MapScreen({ navigation }: any) {
         ))}
       </ClusteredMapView>
 
+      {/* Offline data notice */}
+      <StationsFreshnessBanner style={{ position: "absolute", left: 12, right: 84, bottom: 36 }} />
+
       {/* Re-center button */}
       {status === 'granted' && (
         <Pressable
@@ -449,6 +416,40 @@ export default function MapScreen({ navigation }: any) {
           maxHeight: 400
         }}>
           <ScrollView showsVerticalScrollIndicator={false}>
+            {/* Compatible with the active vehicle */}
+            {filters.vehicle && (
+              <View style={{ marginBottom: 12 }}>
+                <Text style={{ fontWeight: "600", marginBottom: 6 }}>{t('filters.myCar')}</Text>
+                <Pressable onPress={() => filters.setCompatibleOnly(!filters.compatibleOnly)}>
+                  <View style={{ flexDirection: "row", alignItems: "center", gap: 8, backgroundColor: filters.compatibleOnly ? "#2F80ED" : "#f1f1f1", paddingVertical: 10, paddingHorizontal: 16, borderRadius: 8 }}>
+                    <MaterialIcons name="directions-car" size={20} color={filters.compatibleOnly ? "#fff" : "#111"} />
+                    <Text style={{ color: filters.compatibleOnly ? "#fff" : "#111", fontSize: 16, fontWeight: "500", flexShrink: 1 }}>
+                      {t('filters.compatibleWith', { name: `${filters.vehicle.make} ${filters.vehicle.model}` })}
+                    </Text>
+                  </View>
+                </Pressable>
+              </View>
+            )}
+
+            {/* Minimum reliability */}
+            <View style={{ marginBottom: 12 }}>
+              <Text style={{ fontWeight: "600", marginBottom: 6 }}>{t('filters.minReliability')}</Text>
+              <View style={{ flexDirection: "row", gap: 8 }}>
+                {RELIABILITY_PRESETS.map((value) => {
+                  const selected = filters.minReliability === value;
+                  return (
+                    <Pressable key={value} onPress={() => filters.setMinReliability(value)} style={{ flex: 1 }}>
+                      <View style={{ alignItems: "center", backgroundColor: selected ? "#2F80ED" : "#f1f1f1", paddingVertical: 10, borderRadius: 8 }}>
+                        <Text style={{ color: selected ? "#fff" : "#111", fontSize: 16, fontWeight: "500" }}>
+                          {value === 0 ? t('filters.anyReliability') : `${Math.round(value * 100)}%`}
+                        </Text>
+                      </View>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </View>
+
             {/* AC/DC Segment */}
             <View style={{ marginBottom: 12 }}>
               <Text style={{ fontWeight: "600", marginBottom: 6 }}>{t('filters.current')}</Text>
@@ -499,26 +500,21 @@ export default function MapScreen({ navigation }: any) {
                     flexDirection: "row",
                     alignItems: "center",
                     gap: 8,
-                    backgroundColor: filters.powerKW.size === 4 ? "#2F80ED" : "#f1f1f1",
+                    backgroundColor: isAnyPower(filters.powerRange) ? "#2F80ED" : "#f1f1f1",
                     paddingVertical: 10,
                     paddingHorizontal: 16,
                     borderRadius: 8,
                     minWidth: 100,
                     justifyContent: "center"
                   }}>
-                    <MaterialIcons name="check-circle" size={20} color={filters.powerKW.size === 4 ? "#fff" : "#111"} />
-                    <Text style={{ color: filters.powerKW.size === 4 ? "#fff" : "#111", fontSize: 16, fontWeight: "500" }}>{t('common.all')}</Text>
+                    <MaterialIcons name="check-circle" size={20} color={isAnyPower(filters.powerRange) ? "#fff" : "#111"} />
+                    <Text style={{ color: isAnyPower(filters.powerRange) ? "#fff" : "#111", fontSize: 16, fontWeight: "500" }}>{t('common.all')}</Text>
                   </View>
                 </Pressable>
                  
                  {/* Group power options into rows of 2 */}
                  {(() => {
-                   const powerOptions = [
-                  { power: 7, label: "7kW", color: "#93c5fd" },
-                  { power: 22, label: "22kW", color: "#3b82f6" },
-                  { power: 50, label: "50kW", color: "#8b5cf6" },
-                  { power: 150, label: "150kW", color: "#f97316" }
-                   ];
+                   const powerOptions = POWER_TIERS;
                    
                    const rows = [];
                    for (let i = 0; i < powerOptions.length; i += 2) {
@@ -529,17 +525,17 @@ export default function MapScreen({ navigation }: any) {
                    return rows.map((row, rowIndex) => (
                      <View key={rowIndex} style={{ flexDirection: "row", gap: 8, justifyContent: "center" }}>
                        {row.map((item) => {
-                         const isSelected = filters.powerKW.has(item.power) && filters.powerKW.size === 1;
+                         const isSelected = isSamePowerRange(filters.powerRange, item);
                          const backgroundColor = isSelected ? "#2F80ED" : "#f1f1f1";
                          
                          return (
-                           <Pressable key={item.power} onPress={() => {
-                    // If this specific power is selected and it's the only one, clear it
-                    // If "All" is selected (size === 4) or this power isn't selected, select just this power
-                    if (filters.powerKW.has(item.power) && filters.powerKW.size === 1) {
-                      filters.clearPower();
+                           <Pressable key={item.presetKW} onPress={() => {
+                    // If this tier is already selected, go back to any power
+                    // Otherwise narrow the range to just this tier
+                    if (isSamePowerRange(filters.powerRange, item)) {
+                      filters.selectAllPower();
                     } else {
-                      filters.set(s => ({ powerKW: new Set([item.power]) }));
+                      filters.setPowerRange({ minKW: item.minKW, maxKW: item.maxKW });
                     }
                   }}>
                     <View style={{
@@ -555,7 +551,7 @@ export default function MapScreen({ navigation }: any) {
                                <View style={{ width: 50, height: 50, marginBottom: 8 }}>
                         <ChargingStationMarker
                                    size={50}
-                          connections={[{ powerKW: item.power, status: 'Available' }]}
+                          connections={[{ powerKW: item.presetKW, status: 'Available' }]}
                         />
                       </View>
                                <Text style={{
@@ -563,7 +559,7 @@ export default function MapScreen({ navigation }: any) {
                                  fontSize: 16,
                                  fontWeight: "500",
                                  textAlign: "center"
-                               }}>{item.label}</Text>
+                               }}>{formatPowerRange(item)}</Text>
                     </View>
                   </Pressable>
                          );
@@ -584,20 +580,15 @@ export default function MapScreen({ navigation }: any) {
               <Text style={{ fontWeight: "600", marginBottom: 6 }}>{t('filters.type')}</Text>
               <View style={{ gap: 8 }}>
                 <Pressable onPress={() => filters.selectAllConnectorTypes()}>
-                  <View style={{ flexDirection: "row", alignItems: "center", gap: 8, backgroundColor: filters.connectorTypes.size === 4 ? "#2F80ED" : "#f1f1f1", paddingVertical: 10, paddingHorizontal: 16, borderRadius: 8, minWidth: 120, justifyContent: "center" }}>
-                    <MaterialIcons name="check-circle" size={20} color={filters.connectorTypes.size === 4 ? "#fff" : "#111"} />
-                    <Text style={{ color: filters.connectorTypes.size === 4 ? "#fff" : "#111", fontSize: 16, fontWeight: "500" }}>{t('common.all')}</Text>
+                  <View style={{ flexDirection: "row", alignItems: "center", gap: 8, backgroundColor: filters.connectorTypes.size === CONNECTOR_TYPES.length ? "#2F80ED" : "#f1f1f1", paddingVertical: 10, paddingHorizontal: 16, borderRadius: 8, minWidth: 120, justifyContent: "center" }}>
+                    <MaterialIcons name="check-circle" size={20} color={filters.connectorTypes.size === CONNECTOR_TYPES.length ? "#fff" : "#111"} />
+                    <Text style={{ color: filters.connectorTypes.size === CONNECTOR_TYPES.length ? "#fff" : "#111", fontSize: 16, fontWeight: "500" }}>{t('common.all')}</Text>
                   </View>
                 </Pressable>
                  
                  {/* Group connector types into rows of 2 */}
                  {(() => {
-                   const connectorTypes = [
-                     { type: "CCS (Type 2)", icon: "ev-plug-ccs2" },
-                     { type: "CHAdeMO", icon: "ev-plug-chademo" },
-                     { type: "Type 2 (Socket Only)", icon: "ev-plug-type2" },
-                     { type: "Unknown/Other", icon: "power-plug" }
-                   ];
+                   const connectorTypes = CONNECTOR_TYPES.map((type) => ({ type, icon: CONNECTOR_ICONS[type] }));
                    
                    const rows = [];
                    for (let i = 0; i < connectorTypes.length; i += 2) {
@@ -614,7 +605,7 @@ export default function MapScreen({ navigation }: any) {
                          return (
                            <Pressable key={item.type} onPress={() => {
                     // If this specific type is selected and it's the only one, clear it
-                    // If "All" is selected (size === 4) or this type isn't selected, select just this type
+                    // If "All" is selected or this type isn't selected, select just this type
                              if (filters.connectorTypes.has(item.type) && filters.connectorTypes.size === 1) {
                       filters.clearConnectorTypes();
                     } else {
@@ -633,7 +624,7 @@ export default function MapScreen({ navigation }: any) {
                              }}>
                                <View style={{ width: 50, height: 50, marginBottom: 8 }}>
                                  <MaterialCommunityIcons 
-                                   name={item.icon as any} 
+                                   name={item.icon} 
                                    size={50} 
                                    color={isSelected ? "#fff" : "#111"} 
                                  />
@@ -643,7 +634,7 @@ export default function MapScreen({ navigation }: any) {
                                  fontSize: 16,
                                  fontWeight: "500",
                                  textAlign: "center"
-                               }}>{item.type}</Text>
+                               }}>{t(connectorLabelKey(item.type))}</Text>
                     </View>
                   </Pressable>
                          );
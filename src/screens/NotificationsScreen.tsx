@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, FlatList, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { useNotificationInbox } from '../hooks';
+import type { AppNotification } from '../services';
+
+const NotificationsScreen: React.FC = ({ navigation }: any) => {
+  const { t, i18n } = useTranslation();
+  const { notifications, markAllRead } = useNotificationInbox();
+  const [unreadIds, setUnreadIds] = useState<Set<string>>(new Set());
+
+  // Highlight what was unread while the screen is open, but mark it read straight away
+  useEffect(() => {
+    const unread = notifications.filter((n) => !n.read);
+    if (unread.length === 0) return;
+    setUnreadIds((ids) => new Set([...ids, ...unread.map((n) => n.id)]));
+    markAllRead();
+  }, [notifications, markAllRead]);
+
+  const renderNotification = ({ item }: { item: AppNotification }) => {
+    const unread = unreadIds.has(item.id);
+    const stationId = item.stationId;
+    return (
+      <TouchableOpacity
+        style={[styles.row, unread && styles.rowUnread]}
+        onPress={stationId ? () => navigation.navigate('Details', { id: stationId }) : undefined}
+        disabled={!stationId}
+      >
+        <View style={styles.icon}>
+          <MaterialIcons name={unread ? 'notifications-active' : 'notifications-none'} size={22} color="#007AFF" />
+        </View>
+        <View style={styles.info}>
+          <Text style={[styles.title, unread && styles.titleUnread]}>{item.title}</Text>
+          <Text style={styles.body}>{item.body}</Text>
+          <Text style={styles.date}>
+            {new Date(item.createdAt).toLocaleString(i18n.language, { dateStyle: 'medium', timeStyle: 'short' })}
+          </Text>
+        </View>
+        {stationId && <MaterialIcons name="chevron-right" size={22} color="#ccc" />}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={notifications}
+        keyExtractor={(item) => item.id}
+        renderItem={renderNotification}
+        ListEmptyComponent={<Text style={styles.emptyText}>{t('notifications.empty')}</Text>}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  rowUnread: {
+    backgroundColor: '#F5F9FF',
+  },
+  icon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#EFF6FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  info: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 16,
+    color: '#333',
+  },
+  titleUnread: {
+    fontWeight: '600',
+  },
+  body: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 2,
+  },
+  date: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    textAlign: 'center',
+    lineHeight: 22,
+    paddingHorizontal: 20,
+    paddingVertical: 60,
+  },
+});
+
+export default NotificationsScreen;
@@ -14,16 +14,20 @@ import {
 } from 'react-native';
 import MaterialIcons from '@expo/vector-icons/MaterialIcons';
 import { useTranslation } from 'react-i18next';
+import { useNavigation } from '@react-navigation/native';
 import { useAuth } from '../contexts';
 import { UserService, UserProfile } from '../services';
 import { auth } from '../config/firebase';
 import { deleteUser } from 'firebase/auth';
 import { setStoredLanguage, getStoredLanguage } from '../utils/i18n';
 import { eventEmitter, EVENTS } from '../utils/eventEmitter';
+import VehicleGarage from '../components/VehicleGarage';
+import MyReports from '../components/MyReports';
 
 const ProfileScreen: React.FC = () => {
   const { user, logout, isGuest, resetGuestState, reauthenticateUser } = useAuth();
   const { t, i18n } = useTranslation();
+  const navigation = useNavigation();
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
@@ -596,7 +600,20 @@ const ProfileScreen: React.FC = () => {
                 </View>
               </View>
 
+              {/* Vehicles */}
+              {userProfile && <VehicleGarage userProfile={userProfile} />}
 
+              {/* Charging history */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>{t('history.title')}</Text>
+                <TouchableOpacity style={styles.infoRow} onPress={() => navigation.navigate('History' as never)}>
+                  <Text style={styles.infoLabel}>{t('history.viewHistory')}</Text>
+                  <MaterialIcons name="chevron-right" size={24} color="#666" />
+                </TouchableOpacity>
+              </View>
+
+              {/* Station reports */}
+              <MyReports />
             </View>
 
             <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
@@ -0,0 +1,444 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  ScrollView,
+  SafeAreaView,
+  ActivityIndicator,
+  StyleSheet,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { MaterialIcons, MaterialCommunityIcons } from '@expo/vector-icons';
+import { useStations, useActiveVehicle } from '../hooks';
+import { useUserPreferences } from '../hooks/useUserPreferences';
+import useUserLocation from '../hooks/useUserLocation';
+import { Station } from '../types/ocm';
+import { pick } from '../utils/i18n';
+import { formatDistance } from '../utils/units';
+import { formatDuration } from '../utils/chargeEstimate';
+import { formatPrice } from '../utils/tariff';
+import { CONNECTOR_ICONS, connectorLabelKey } from '../utils/connectors';
+import {
+  planChargingStops,
+  searchPlaces,
+  TYPICAL_VEHICLE,
+  type Place,
+  type RoutePlan,
+} from '../utils/routePlanner';
+import { defaultRouting, haversineRouting, type RoutingBackend } from '../api/routing';
+
+interface PlaceFieldProps {
+  label: string;
+  stations: Station[];
+  value: Place | null;
+  onChange: (place: Place | null) => void;
+  currentLocation?: Place | null;
+}
+
+// Search box that resolves to a town, a station or the current location
+const PlaceField: React.FC<PlaceFieldProps> = ({ label, stations, value, onChange, currentLocation }) => {
+  const { t } = useTranslation();
+  const [query, setQuery] = useState('');
+  const results = useMemo(() => searchPlaces(stations, query), [stations, query]);
+
+  return (
+    <View style={styles.field}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      {value ? (
+        <View style={styles.selectedPlace}>
+          <MaterialIcons
+            name={value.kind === 'station' ? 'ev-station' : value === currentLocation ? 'my-location' : 'place'}
+            size={20}
+            color="#2F80ED"
+          />
+          <Text style={styles.selectedPlaceText} numberOfLines={1}>{value.label}</Text>
+          <Pressable onPress={() => onChange(null)} hitSlop={8}>
+            <MaterialIcons name="close" size={20} color="#666" />
+          </Pressable>
+        </View>
+      ) : (
+        <>
+          <TextInput
+            style={styles.input}
+            value={query}
+            onChangeText={setQuery}
+            placeholder={t('route.searchPlaceholder')}
+          />
+          {currentLocation && !query && (
+            <Pressable style={styles.result} onPress={() => onChange(currentLocation)}>
+              <MaterialIcons name="my-location" size={18} color="#2F80ED" />
+              <Text style={styles.resultText}>{t('route.currentLocation')}</Text>
+            </Pressable>
+          )}
+          {results.map((place, index) => (
+            <Pressable
+              key={`${place.kind}-${place.stationId ?? place.label}-${index}`}
+              style={styles.result}
+              onPress={() => {
+                onChange(place);
+                setQuery('');
+              }}
+            >
+              <MaterialIcons name={place.kind === 'station' ? 'ev-station' : 'place'} size={18} color="#666" />
+              <Text style={styles.resultText} numberOfLines={1}>{place.label}</Text>
+            </Pressable>
+          ))}
+        </>
+      )}
+    </View>
+  );
+};
+
+const toPercent = (text: string) => Math.max(0, Math.min(100, Number(text.replace(',', '.')) || 0));
+
+export default function RouteScreen({ navigation }: any) {
+  const { t, i18n } = useTranslation();
+  const { data: stations = [], isLoading } = useStations();
+  const { coords } = useUserLocation();
+  const { activeVehicle } = useActiveVehicle();
+  const { preferences } = useUserPreferences();
+  const units = preferences?.units || 'metric';
+
+  const currentLocation = useMemo<Place | null>(
+    () => coords
+      ? { label: t('route.currentLocation'), kind: 'town', latitude: coords.latitude, longitude: coords.longitude }
+      : null,
+    [coords, t]
+  );
+
+  // undefined until the user picks something other than the current location
+  const [origin, setOrigin] = useState<Place | null | undefined>(undefined);
+  const [destination, setDestination] = useState<Place | null>(null);
+  const [startSoC, setStartSoC] = useState('80');
+  const [arrivalSoC, setArrivalSoC] = useState('15');
+  const [plan, setPlan] = useState<RoutePlan | null>(null);
+  const [backend, setBackend] = useState<RoutingBackend>(defaultRouting);
+  const [planning, setPlanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const from = origin === undefined ? currentLocation : origin;
+  const vehicle = activeVehicle ?? TYPICAL_VEHICLE;
+
+  const handlePlan = async () => {
+    if (!from || !destination) return;
+    setPlanning(true);
+    setError(null);
+    try {
+      let used = defaultRouting;
+      let path;
+      try {
+        path = await defaultRouting.route(from, destination);
+      } catch (err) {
+        // Keep planning offline on straight lines
+        console.error('Routing backend failed, using straight-line distances:', err);
+        used = haversineRouting;
+        path = await haversineRouting.route(from, destination);
+      }
+      setBackend(used);
+      setPlan(planChargingStops(path, stations, {
+        vehicle,
+        startSoC: toPercent(startSoC),
+        arrivalSoC: toPercent(arrivalSoC),
+      }));
+    } catch (err) {
+      console.error('Error planning route:', err);
+      setError(t('route.error'));
+      setPlan(null);
+    } finally {
+      setPlanning(false);
+    }
+  };
+
+  if (isLoading) return <ActivityIndicator style={{ marginTop: 32 }} />;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.vehicleRow}>
+          <MaterialIcons name="directions-car" size={20} color="#111" />
+          <Text style={styles.vehicleText}>
+            {activeVehicle
+              ? `${activeVehicle.make} ${activeVehicle.model} • ${activeVehicle.batteryKWh} kWh`
+              : t('route.typicalVehicle')}
+          </Text>
+        </View>
+
+        <PlaceField
+          label={t('route.from')}
+          stations={stations}
+          value={from}
+          onChange={setOrigin}
+          currentLocation={currentLocation}
+        />
+        <PlaceField
+          label={t('route.to')}
+          stations={stations}
+          value={destination}
+          onChange={setDestination}
+        />
+
+        <View style={styles.socRow}>
+          <View style={styles.socField}>
+            <Text style={styles.fieldLabel}>{t('route.startSoC')}</Text>
+            <TextInput
+              style={styles.input}
+              value={startSoC}
+              onChangeText={setStartSoC}
+              keyboardType="number-pad"
+              maxLength={3}
+            />
+          </View>
+          <View style={styles.socField}>
+            <Text style={styles.fieldLabel}>{t('route.arrivalSoC')}</Text>
+            <TextInput
+              style={styles.input}
+              value={arrivalSoC}
+              onChangeText={setArrivalSoC}
+              keyboardType="number-pad"
+              maxLength={3}
+            />
+          </View>
+        </View>
+
+        <Pressable
+          style={[styles.planButton, (!from || !destination || planning) && styles.planButtonDisabled]}
+          onPress={handlePlan}
+          disabled={!from || !destination || planning}
+        >
+          {planning
+            ? <ActivityIndicator color="#fff" />
+            : <Text style={styles.planButtonText}>{t('route.plan')}</Text>}
+        </Pressable>
+
+        {error && <Text style={styles.error}>{error}</Text>}
+
+        {plan && (
+          <View style={styles.summary}>
+            <Text style={styles.summaryTitle}>
+              {formatDistance(plan.path.distanceMeters, units)} • {formatDuration(plan.totalMinutes, t)}
+            </Text>
+            <Text style={styles.summaryDetail}>
+              {t('route.summary', {
+                count: plan.stops.length,
+                soc: Math.round(plan.arrivalSoC),
+              })}
+            </Text>
+            {backend === haversineRouting && (
+              <Text style={styles.note}>{t('route.straightLineNote')}</Text>
+            )}
+            {!plan.feasible && (
+              <View style={styles.warning}>
+                <MaterialIcons name="warning" size={18} color="#B45309" />
+                <Text style={styles.warningText}>{t('route.infeasible')}</Text>
+              </View>
+            )}
+            {plan.feasible && plan.stops.length === 0 && (
+              <Text style={styles.summaryDetail}>{t('route.noStopsNeeded')}</Text>
+            )}
+          </View>
+        )}
+
+        {plan?.stops.map((stop, index) => (
+          <Pressable
+            key={stop.station.ID}
+            style={styles.stop}
+            onPress={() => navigation.navigate('Details', { id: stop.station.ID })}
+          >
+            <View style={styles.stopIndex}>
+              <Text style={styles.stopIndexText}>{index + 1}</Text>
+            </View>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.stopTitle} numberOfLines={1}>{pick(stop.station.title)}</Text>
+              <Text style={styles.stopDetail}>
+                {formatDistance(stop.distanceMeters, units)} • {Math.round(stop.arrivalSoC)}% → {Math.round(stop.departureSoC)}%
+              </Text>
+              <View style={styles.stopConnector}>
+                <MaterialCommunityIcons
+                  name={CONNECTOR_ICONS[stop.connection.connectorType]}
+                  size={18}
+                  color="#111"
+                />
+                <Text style={styles.stopDetail}>
+                  {t(connectorLabelKey(stop.connection.connectorType))} • {Math.round(stop.powerKW)} kW
+                  {stop.cost != null && stop.station.tariff
+                    ? ` • ${formatPrice(stop.cost, stop.station.tariff.currency, i18n.language)}`
+                    : ''}
+                </Text>
+              </View>
+            </View>
+            <Text style={styles.stopTime}>{formatDuration(stop.chargeMinutes, t)}</Text>
+          </Pressable>
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  vehicleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  vehicleText: {
+    fontSize: 14,
+    color: '#333',
+    flexShrink: 1,
+  },
+  field: {
+    marginBottom: 16,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#f9f9f9',
+  },
+  selectedPlace: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderColor: '#2F80ED',
+    borderRadius: 8,
+    padding: 12,
+  },
+  selectedPlaceText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#111',
+  },
+  result: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderColor: '#f0f0f0',
+  },
+  resultText: {
+    flex: 1,
+    fontSize: 15,
+    color: '#333',
+  },
+  socRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  socField: {
+    flex: 1,
+  },
+  planButton: {
+    backgroundColor: '#2F80ED',
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  planButtonDisabled: {
+    opacity: 0.5,
+  },
+  planButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  error: {
+    color: 'red',
+    marginBottom: 16,
+  },
+  summary: {
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginBottom: 12,
+  },
+  summaryTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  summaryDetail: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  note: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 6,
+  },
+  warning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#B45309',
+  },
+  stop: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderColor: '#eee',
+  },
+  stopIndex: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#10B981',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  stopIndexText: {
+    color: '#fff',
+    fontWeight: '700',
+  },
+  stopTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  stopDetail: {
+    fontSize: 12,
+    color: '#374151',
+  },
+  stopConnector: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 2,
+  },
+  stopTime: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#10B981',
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,379 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../contexts';
+import { UserService, NewStationAlerts } from '../services';
+import { useStations, useNewStations } from '../hooks/useStations';
+import { NEW_STATION_WINDOW_DAYS } from '../api/stationSightings';
+import { eventEmitter, EVENTS } from '../utils/eventEmitter';
+import { pick } from '../utils/i18n';
+import type { Station } from '../types/ocm';
+
+const emptyAlerts = (): NewStationAlerts => ({ districts: [], operators: [] });
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+const WhatsNewScreen: React.FC = ({ navigation }: any) => {
+  const { user, isGuest } = useAuth();
+  const { t, i18n } = useTranslation();
+  const { data: stations } = useStations();
+  const { data: newStations, isLoading } = useNewStations();
+  const [alerts, setAlerts] = useState<NewStationAlerts>(emptyAlerts);
+  const [draft, setDraft] = useState<NewStationAlerts>(emptyAlerts);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const canSubscribe = !!user && !isGuest;
+
+  const loadAlerts = async () => {
+    if (!canSubscribe) {
+      setAlerts(emptyAlerts());
+      return;
+    }
+    try {
+      const profile = await UserService.getCurrentUserProfile();
+      setAlerts(profile?.preferences?.newStationAlerts ?? emptyAlerts());
+    } catch (error) {
+      console.error('Error loading new station alerts:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadAlerts();
+    eventEmitter.on(EVENTS.USER_PREFERENCES_CHANGED, loadAlerts);
+    return () => {
+      eventEmitter.off(EVENTS.USER_PREFERENCES_CHANGED, loadAlerts);
+    };
+  }, [user, isGuest]);
+
+  // Every district and operator in the data, keyed the way alerts store them
+  const { districts, operators } = useMemo(() => {
+    const districtNames = new Map<string, string>();
+    const operatorNames = new Set<string>();
+    for (const station of stations ?? []) {
+      if (station.district.en) districtNames.set(station.district.en, pick(station.district));
+      if (station.operator) operatorNames.add(station.operator);
+    }
+    return {
+      districts: [...districtNames.entries()].sort((a, b) => a[1].localeCompare(b[1])),
+      operators: [...operatorNames].sort((a, b) => a.localeCompare(b)),
+    };
+  }, [stations, i18n.language]);
+
+  const openAlerts = () => {
+    if (!canSubscribe) {
+      Alert.alert(t('whatsNew.alertsTitle'), t('whatsNew.signInRequired'));
+      return;
+    }
+    setDraft(alerts);
+    setModalVisible(true);
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    setSaving(true);
+    try {
+      const profile = await UserService.getCurrentUserProfile();
+      await UserService.updateUserPreferences(user.uid, {
+        ...profile?.preferences,
+        newStationAlerts: draft,
+      });
+      setAlerts(draft);
+      setModalVisible(false);
+      eventEmitter.emit(EVENTS.USER_PREFERENCES_CHANGED);
+    } catch (error) {
+      console.error('Error saving new station alerts:', error);
+      Alert.alert(t('common.error'), t('whatsNew.saveError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const subscriptionCount = alerts.districts.length + alerts.operators.length;
+
+  const renderStation = ({ item }: { item: { station: Station; firstSeen: Date } }) => (
+    <TouchableOpacity
+      style={styles.stationRow}
+      onPress={() => navigation.navigate('Details', { id: item.station.ID })}
+    >
+      <View style={styles.stationIcon}>
+        <MaterialIcons name="ev-station" size={24} color="#007AFF" />
+      </View>
+      <View style={styles.stationInfo}>
+        <Text style={styles.stationName}>{pick(item.station.title)}</Text>
+        <Text style={styles.stationMeta}>
+          {[pick(item.station.town), pick(item.station.district)].filter(Boolean).join(', ')}
+        </Text>
+        <Text style={styles.stationMeta}>{item.station.operator}</Text>
+      </View>
+      <Text style={styles.firstSeen}>
+        {t('whatsNew.firstSeen', { date: item.firstSeen.toLocaleDateString(i18n.language) })}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderChips = (options: Array<[string, string]>, selected: string[], key: keyof NewStationAlerts) => (
+    <View style={styles.chipRow}>
+      {options.map(([value, label]) => {
+        const active = selected.includes(value);
+        return (
+          <TouchableOpacity
+            key={value}
+            style={[styles.chip, active && styles.chipActive]}
+            onPress={() => setDraft((d) => ({ ...d, [key]: toggle(d[key], value) }))}
+          >
+            <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={newStations ?? []}
+        keyExtractor={(item) => item.station.ID}
+        renderItem={renderStation}
+        ListHeaderComponent={(
+          <View style={styles.header}>
+            <Text style={styles.headerText}>
+              {t('whatsNew.subtitle', { count: NEW_STATION_WINDOW_DAYS })}
+            </Text>
+            <TouchableOpacity style={styles.alertsButton} onPress={openAlerts}>
+              <MaterialIcons
+                name={subscriptionCount > 0 ? 'notifications-active' : 'notifications-none'}
+                size={20}
+                color="#007AFF"
+              />
+              <Text style={styles.alertsButtonText}>
+                {subscriptionCount > 0
+                  ? t('whatsNew.alertsOn', { count: subscriptionCount })
+                  : t('whatsNew.alertsOff')}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        ListEmptyComponent={
+          isLoading ? (
+            <ActivityIndicator style={styles.loading} size="large" color="#007AFF" />
+          ) : (
+            <Text style={styles.emptyText}>{t('whatsNew.empty')}</Text>
+          )
+        }
+      />
+
+      <Modal visible={modalVisible} transparent animationType="fade" onRequestClose={() => setModalVisible(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{t('whatsNew.alertsTitle')}</Text>
+            <Text style={styles.modalSubtitle}>{t('whatsNew.alertsHint')}</Text>
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <Text style={styles.sectionLabel}>{t('whatsNew.districts')}</Text>
+              {renderChips(districts, draft.districts, 'districts')}
+              <Text style={styles.sectionLabel}>{t('whatsNew.operators')}</Text>
+              {renderChips(operators.map((o) => [o, o]), draft.operators, 'operators')}
+            </ScrollView>
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton]}
+                onPress={() => setModalVisible(false)}
+                disabled={saving}
+              >
+                <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.saveButton]}
+                onPress={handleSave}
+                disabled={saving}
+              >
+                <Text style={styles.saveButtonText}>
+                  {saving ? t('common.loading') : t('common.save')}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    padding: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  headerText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  alertsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#EFF6FF',
+  },
+  alertsButtonText: {
+    marginLeft: 6,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  stationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  stationIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#EFF6FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  stationInfo: {
+    flex: 1,
+  },
+  stationName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  stationMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  firstSeen: {
+    fontSize: 12,
+    color: '#999',
+    marginLeft: 8,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    textAlign: 'center',
+    lineHeight: 22,
+    paddingHorizontal: 20,
+    paddingVertical: 60,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 24,
+    width: '90%',
+    maxWidth: 420,
+    maxHeight: '85%',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+    textAlign: 'center',
+  },
+  modalSubtitle: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  sectionLabel: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  chipActive: {
+    borderColor: '#007AFF',
+    backgroundColor: '#EFF6FF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextActive: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginTop: 16,
+  },
+  modalButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#f0f0f0',
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default WhatsNewScreen;
@@ -2,6 +2,10 @@ export { default as MapScreen } from './MapScreen';
 export { default as ListScreen } from './ListScreen';
 export { default as FavoritesScreen } from './FavoritesScreen';
 export { default as DetailsScreen } from './DetailsScreen';
+export { default as RouteScreen } from './RouteScreen';
+export { default as HistoryScreen } from './HistoryScreen';
+export { default as WhatsNewScreen } from './WhatsNewScreen';
+export { default as NotificationsScreen } from './NotificationsScreen';
 export { default as LoginScreen } from './LoginScreen';
 export { default as SignupScreen } from './SignupScreen';
 export { default as ProfileScreen } from './ProfileScreen';
@@ -0,0 +1,57 @@
+import FirestoreService from "../firestore";
+import { CheckInsService } from "../checkInsService";
+
+jest.mock("../../config/firebase", () => ({ auth: { currentUser: { uid: "user-1" } } }));
+jest.mock("../firestore", () => {
+  let next = 0;
+  return {
+    __esModule: true,
+    default: {
+      getDocument: jest.fn(async () => ({ id: "user-1", firstName: "Eleni" })),
+      addDocument: jest.fn(async () => "added-id"),
+      batchWrite: jest.fn(async () => {}),
+      newDocumentId: jest.fn(() => `new-${++next}`),
+    },
+    collections: { users: "users", chargingStations: "chargingStations", checkIns: "checkIns", chargingSessions: "chargingSessions" },
+  };
+});
+
+const firestore = FirestoreService as unknown as Record<"addDocument" | "batchWrite", jest.Mock>;
+
+const checkIn = { connectorType: "CCS2" as const, connectorIndex: 0, success: true, kWh: 20, cost: undefined };
+
+beforeEach(() => jest.clearAllMocks());
+
+describe("CheckInsService.addCheckIn", () => {
+  it("adds a lone check-in without optional fields that were left blank", async () => {
+    await expect(CheckInsService.addCheckIn("460135", checkIn)).resolves.toBe("added-id");
+
+    const [[path, data]] = firestore.addDocument.mock.calls;
+    expect(path).toBe("chargingStations/460135/checkIns");
+    expect(data).toMatchObject({ stationId: "460135", userId: "user-1", userName: "Eleni", kWh: 20 });
+    expect(data).not.toHaveProperty("cost");
+    expect(firestore.batchWrite).not.toHaveBeenCalled();
+  });
+
+  it("writes the check-in and its history session in one batch", async () => {
+    const session = {
+      stationId: "460135",
+      stationName: "Limassol Marina",
+      operator: "EAC",
+      startedAt: new Date(),
+      kWh: 20,
+      cost: undefined,
+      source: "checkIn" as const,
+    };
+    const checkInId = await CheckInsService.addCheckIn("460135", checkIn, session);
+
+    expect(firestore.addDocument).not.toHaveBeenCalled();
+    const [[operations]] = firestore.batchWrite.mock.calls;
+    expect(operations).toEqual([
+      expect.objectContaining({ type: "set", collection: "chargingStations/460135/checkIns", id: checkInId }),
+      expect.objectContaining({ type: "set", collection: "users/user-1/chargingSessions" }),
+    ]);
+    expect(operations[1].data).toEqual({ ...session, checkInId });
+    expect(operations[1].data).not.toHaveProperty("cost");
+  });
+});
@@ -0,0 +1,66 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { checkFavoriteChanges } from "../favoriteAlerts";
+import { createLocalNotifier, getNotificationInbox, markNotificationsRead, type Notifier } from "../notifications";
+import type { FavoriteStation } from "../favoritesService";
+import { eventEmitter, EVENTS } from "../../utils/eventEmitter";
+import type { StationChange } from "../../utils/stationChanges";
+import { makeConnection, makeStation } from "../../__fixtures__/stations";
+
+const favorite = (stationId: string, notifyOnChange = true): FavoriteStation => ({
+  id: stationId,
+  stationId,
+  stationName: `Station ${stationId}`,
+  stationAddress: "",
+  stationOperator: "EAC",
+  addedAt: new Date(0),
+  sortOrder: 0,
+  notifyOnChange,
+});
+
+const describeChange = (change: StationChange) => ({ title: change.stationName, body: change.kind, stationId: change.stationId });
+const broken = makeConnection({ status: "Not Operational" });
+
+beforeEach(() => AsyncStorage.clear());
+
+describe("checkFavoriteChanges", () => {
+  it("sends everything one refresh changed in a single batch", async () => {
+    const notifier: Notifier & { notify: jest.Mock } = { name: "test", notify: jest.fn(async () => {}) };
+    const favorites = [favorite("1"), favorite("2"), favorite("3", false)];
+    const before = ["1", "2", "3"].map((id) => makeStation({ ID: id }));
+    const after = before.map((s) => ({ ...s, connections: [broken] }));
+
+    await checkFavoriteChanges(before, favorites, describeChange, notifier);
+    expect(notifier.notify).not.toHaveBeenCalled();
+
+    const changes = await checkFavoriteChanges(after, favorites, describeChange, notifier);
+    expect(changes.map((c) => c.stationId)).toEqual(["1", "2"]);
+    expect(notifier.notify).toHaveBeenCalledTimes(1);
+    expect(notifier.notify.mock.calls[0][0]).toEqual([
+      { title: after[0].title.en, body: "outOfOrder", stationId: "1" },
+      { title: after[1].title.en, body: "outOfOrder", stationId: "2" },
+    ]);
+  });
+});
+
+describe("createLocalNotifier", () => {
+  it("files a batch in the inbox and announces it once", async () => {
+    const listener = jest.fn();
+    eventEmitter.on(EVENTS.NOTIFICATIONS_RECEIVED, listener);
+    try {
+      await createLocalNotifier().notify([
+        { title: "A", body: "outOfOrder" },
+        { title: "B", body: "priceChanged" },
+      ]);
+    } finally {
+      eventEmitter.off(EVENTS.NOTIFICATIONS_RECEIVED, listener);
+    }
+
+    const inbox = await getNotificationInbox();
+    expect(inbox.map((n) => [n.title, n.read])).toEqual([["A", false], ["B", false]]);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0]).toEqual(inbox);
+
+    await markNotificationsRead();
+    expect((await getNotificationInbox()).every((n) => n.read)).toBe(true);
+  });
+});
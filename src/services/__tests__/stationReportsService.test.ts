@@ -0,0 +1,57 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import FirestoreService from "../firestore";
+import { StationReportsService } from "../stationReportsService";
+
+jest.mock("../../config/firebase", () => ({ auth: { currentUser: { uid: "user-1" } } }));
+jest.mock("../firestore", () => ({
+  __esModule: true,
+  default: { batchWrite: jest.fn() },
+  collections: { stationReports: "stationReports", stationReportSignals: "stationReportSignals" },
+}));
+
+const batchWrite = FirestoreService.batchWrite as jest.Mock;
+
+const report = (stationId: string) => ({ stationId, stationName: `Station ${stationId}`, type: "brokenConnector" as const });
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  batchWrite.mockReset();
+});
+
+describe("StationReportsService.submitReport", () => {
+  it("writes the report together with its redacted copy", async () => {
+    batchWrite.mockResolvedValue(undefined);
+    await expect(StationReportsService.submitReport(report("1"))).resolves.toBe(true);
+
+    const [[operations]] = batchWrite.mock.calls;
+    expect(operations.map((o: { collection: string }) => o.collection)).toEqual(["stationReports", "stationReportSignals"]);
+    expect(Object.keys(operations[1].data).sort()).toEqual(["reportedAt", "stationId", "status", "type"]);
+    await expect(StationReportsService.getQueuedReports()).resolves.toEqual([]);
+  });
+
+  it("sends a report filed while an earlier flush is still running", async () => {
+    let finishFirst = () => {};
+    batchWrite
+      .mockImplementationOnce(() => new Promise<void>((resolve) => { finishFirst = resolve; }))
+      .mockResolvedValue(undefined);
+
+    const first = StationReportsService.submitReport(report("1"));
+    // Let the first flush start its write before the second report is queued
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const second = StationReportsService.submitReport(report("2"));
+    finishFirst();
+
+    await expect(first).resolves.toBe(true);
+    await expect(second).resolves.toBe(true);
+    expect(batchWrite).toHaveBeenCalledTimes(2);
+    await expect(StationReportsService.getQueuedReports()).resolves.toEqual([]);
+  });
+
+  it("keeps the report queued when Firestore fails", async () => {
+    batchWrite.mockRejectedValue(new Error("offline"));
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    await expect(StationReportsService.submitReport(report("1"))).resolves.toBe(false);
+    expect(await StationReportsService.getQueuedReports()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,119 @@
+// src/services/checkInsService.ts
+import FirestoreService, { collections } from './firestore';
+import { auth } from '../config/firebase';
+import { chargingSessionsPath, type CreateChargingSessionData } from './userService';
+import type { ConnectorType } from '../types/ocm';
+
+export interface CheckIn {
+  id: string;
+  stationId: string;
+  userId: string;
+  userName: string; // first name shown next to the check-in
+  connectorType: ConnectorType;
+  connectorIndex: number; // position in station.connections
+  success: boolean;
+  kWh?: number;
+  cost?: number; // in `currency`
+  currency?: string; // ISO 4217, set with the cost; EUR for older check-ins
+  comment?: string;
+  checkedInAt: Date;
+}
+
+export type CreateCheckInData = Omit<CheckIn, 'id' | 'stationId' | 'userId' | 'userName' | 'checkedInAt'>;
+
+// Check-ins live under the station: chargingStations/{stationId}/checkIns
+const checkInsPath = (stationId: string) =>
+  `${collections.chargingStations}/${stationId}/${collections.checkIns}`;
+
+// Timestamps come back from Firestore; a pending local write has a Date already
+const fromDocument = (d: CheckIn): CheckIn => ({
+  ...d,
+  checkedInAt: d.checkedInAt instanceof Date
+    ? d.checkedInAt
+    : FirestoreService.timestampToDate(d.checkedInAt as any) ?? new Date(),
+});
+
+export class CheckInsService {
+  /**
+   * Record a check-in by the current user
+   * @param session Also add this session to the user's history, in the same write,
+   *   so a failure never leaves a check-in without its session
+   * @returns The check-in ID
+   */
+  static async addCheckIn(
+    stationId: string,
+    data: CreateCheckInData,
+    session?: Omit<CreateChargingSessionData, 'checkInId'>
+  ): Promise<string> {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      throw new Error('User must be authenticated to check in');
+    }
+
+    const profile = await FirestoreService.getDocument<{ id: string; firstName?: string }>(
+      collections.users,
+      currentUser.uid
+    );
+
+    // Firestore rejects undefined fields
+    const optional = Object.fromEntries(
+      Object.entries({ kWh: data.kWh, cost: data.cost, currency: data.currency, comment: data.comment }).filter(([, v]) => v !== undefined)
+    );
+
+    const checkIn = {
+      stationId,
+      userId: currentUser.uid,
+      userName: profile?.firstName || '',
+      connectorType: data.connectorType,
+      connectorIndex: data.connectorIndex,
+      success: data.success,
+      ...optional,
+      checkedInAt: new Date(),
+    };
+    if (!session) {
+      return await FirestoreService.addDocument(checkInsPath(stationId), checkIn);
+    }
+
+    const checkInId = FirestoreService.newDocumentId(checkInsPath(stationId));
+    const sessionsPath = chargingSessionsPath(currentUser.uid);
+    await FirestoreService.batchWrite([
+      { type: 'set', collection: checkInsPath(stationId), id: checkInId, data: checkIn },
+      {
+        type: 'set',
+        collection: sessionsPath,
+        id: FirestoreService.newDocumentId(sessionsPath),
+        data: Object.fromEntries(Object.entries({ ...session, checkInId }).filter(([, v]) => v !== undefined)),
+      },
+    ]);
+    return checkInId;
+  }
+
+  // Delete one of the current user's check-ins
+  static async deleteCheckIn(stationId: string, checkInId: string): Promise<void> {
+    await FirestoreService.deleteDocument(checkInsPath(stationId), checkInId);
+  }
+
+  // Check-ins at every station since the given date, for reliability scores
+  static async getRecentCheckIns(since: Date): Promise<CheckIn[]> {
+    const documents = await FirestoreService.getCollectionGroupDocuments<CheckIn>(
+      collections.checkIns,
+      { where: [{ field: 'checkedInAt', operator: '>=', value: since }] }
+    );
+    return documents.map(fromDocument);
+  }
+
+  // Subscribe to a station's most recent check-ins, newest first
+  static subscribeToStationCheckIns(
+    stationId: string,
+    callback: (checkIns: CheckIn[]) => void,
+    max: number = 20
+  ) {
+    return FirestoreService.subscribeToCollection<CheckIn>(
+      checkInsPath(stationId),
+      (documents) => callback(documents.map(fromDocument)),
+      { orderBy: [{ field: 'checkedInAt', direction: 'desc' }], limit: max }
+    );
+  }
+}
+
+export default CheckInsService;
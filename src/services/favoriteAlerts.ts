@@ -0,0 +1,76 @@
+// src/services/favoriteAlerts.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Station } from '../types/ocm';
+import type { FavoriteStation } from './favoritesService';
+import { defaultNotifier, NotificationContent, Notifier } from './notifications';
+import {
+  diffFingerprints,
+  fingerprintStation,
+  StationChange,
+  StationFingerprint,
+} from '../utils/stationChanges';
+
+// Fingerprints of every favorite as of the last check, keyed by station ID
+const SNAPSHOT_KEY = 'favorite-alerts-snapshot-v1';
+
+let checking: Promise<StationChange[]> | null = null;
+
+async function readSnapshot(): Promise<Record<string, StationFingerprint>> {
+  try {
+    const raw = await AsyncStorage.getItem(SNAPSHOT_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    console.error('Error reading favorite alerts snapshot:', error);
+    return {};
+  }
+}
+
+/**
+ * Compare the favorites in the latest station data with the last check and
+ * notify about changes to the ones with alerts on. Every favorite is tracked,
+ * so turning alerts on later does not replay old changes. Runs one at a time.
+ * @param describe Turns a change into notification text
+ * @returns The changes that were notified
+ */
+export function checkFavoriteChanges(
+  stations: Station[],
+  favorites: FavoriteStation[],
+  describe: (change: StationChange) => NotificationContent,
+  notifier: Notifier = defaultNotifier
+): Promise<StationChange[]> {
+  const run = async (): Promise<StationChange[]> => {
+    const previous = await readSnapshot();
+    const byId = new Map(stations.map((s) => [s.ID, s]));
+    const next: Record<string, StationFingerprint> = {};
+    const changes: StationChange[] = [];
+
+    for (const favorite of favorites) {
+      const station = byId.get(favorite.stationId);
+      // Stations missing from this refresh keep their last fingerprint
+      if (!station) {
+        if (previous[favorite.stationId]) next[favorite.stationId] = previous[favorite.stationId];
+        continue;
+      }
+      const fingerprint = fingerprintStation(station);
+      next[favorite.stationId] = fingerprint;
+      if (favorite.notifyOnChange) {
+        changes.push(...diffFingerprints(previous[favorite.stationId], fingerprint));
+      }
+    }
+
+    await AsyncStorage.setItem(SNAPSHOT_KEY, JSON.stringify(next));
+    if (changes.length > 0) {
+      try {
+        await notifier.notify(changes.map(describe));
+      } catch (error) {
+        console.error(`Error sending ${notifier.name} notifications:`, error);
+      }
+    }
+    return changes;
+  };
+
+  // Chain rather than share, so the latest data is always checked
+  const queued = (checking ?? Promise.resolve([])).catch(() => []).then(run);
+  checking = queued;
+  return queued;
+}
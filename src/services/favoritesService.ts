@@ -1,12 +1,28 @@
 // src/services/favoritesService.ts
+import { arrayRemove, arrayUnion, deleteField } from 'firebase/firestore';
 import { auth } from '../config/firebase';
+import FirestoreService, { collections } from './firestore';
 import { UserService } from './userService';
+import {
+  readGuestFavorites,
+  writeGuestFavorites,
+  clearGuestFavorites,
+  subscribeToGuestFavorites,
+} from './guestFavorites';
+import { readStationsSnapshot } from '../api/stationCache';
+import { loadBundledStations } from '../api/api';
 
 export interface FavoriteStation {
+  id: string; // same as stationId, one document per station
   stationId: string;
   stationName: string;
   stationAddress: string;
   stationOperator: string;
+  notes?: string;
+  labels?: string[]; // e.g. "Home", "Work"
+  addedAt: Date;
+  sortOrder: number; // ascending; new favorites go last
+  notifyOnChange?: boolean; // alert on status, connector and price changes
 }
 
 export interface CreateFavoriteData {
@@ -14,54 +30,158 @@ export interface CreateFavoriteData {
   stationName: string;
   stationAddress: string;
   stationOperator: string;
+  notes?: string;
+  labels?: string[];
 }
 
+export type UpdateFavoriteData = Partial<Pick<FavoriteStation, 'notes' | 'labels' | 'notifyOnChange'>>;
+
+// A named group of favorites, e.g. "Paphos weekend"
+export interface FavoriteList {
+  id: string;
+  name: string;
+  stationIds: string[]; // every one is also a favorite
+  createdAt: Date;
+}
+
+// Labels offered before the user makes up their own
+export const SUGGESTED_FAVORITE_LABELS = ['Home', 'Work'];
+
+// Favorites live under the user: users/{userId}/favorites
+const favoritesPath = (userId: string) =>
+  `${collections.users}/${userId}/${collections.favorites}`;
+
+// Lists live under the user too: users/{userId}/favoriteLists
+const favoriteListsPath = (userId: string) =>
+  `${collections.users}/${userId}/${collections.favoriteLists}`;
+
+// Timestamps come back from Firestore; a pending local write has a Date already
+const fromDocument = (d: FavoriteStation): FavoriteStation => ({
+  ...d,
+  addedAt: d.addedAt instanceof Date
+    ? d.addedAt
+    : FirestoreService.timestampToDate(d.addedAt as any) ?? new Date(),
+  sortOrder: d.sortOrder ?? 0,
+});
+
+const listFromDocument = (d: FavoriteList): FavoriteList => ({
+  ...d,
+  stationIds: d.stationIds ?? [],
+  createdAt: d.createdAt instanceof Date
+    ? d.createdAt
+    : FirestoreService.timestampToDate(d.createdAt as any) ?? new Date(),
+});
+
+const requireUser = (action: string) => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) {
+    throw new Error(`User must be authenticated to ${action}`);
+  }
+  return currentUser;
+};
+
+// Favorites work without an account: signed out, they are kept on the device
+// until the next login merges them into Firestore
 export class FavoritesService {
+  // Get the current user's favorites in their chosen order
+  static async getUserFavorites(): Promise<FavoriteStation[]> {
+    const currentUser = auth.currentUser;
+    if (!currentUser) return await readGuestFavorites();
+
+    const documents = await FirestoreService.getDocuments<FavoriteStation>(
+      favoritesPath(currentUser.uid),
+      { orderBy: [{ field: 'sortOrder', direction: 'asc' }] }
+    );
+    return documents.map(fromDocument);
+  }
+
   // Get all favorite station IDs for current user
   static async getUserFavoriteStationIds(): Promise<string[]> {
-    const currentUser = auth.currentUser;
-    if (!currentUser) return [];
-    
-    return await UserService.getUserFavoriteStationIds(currentUser.uid);
+    const favorites = await this.getUserFavorites();
+    return favorites.map((f) => f.stationId);
   }
 
   // Check if a station is favorited by current user
   static async isStationFavorited(stationId: string): Promise<boolean> {
     const currentUser = auth.currentUser;
-    if (!currentUser) return false;
-    
-    return await UserService.isStationFavorited(currentUser.uid, stationId);
+    if (!currentUser) {
+      return (await readGuestFavorites()).some((f) => f.stationId === stationId);
+    }
+
+    const favorite = await FirestoreService.getDocument<FavoriteStation>(
+      favoritesPath(currentUser.uid),
+      stationId
+    );
+    return favorite !== null;
   }
 
-  // Add a station to favorites
+  // Add a station to favorites, keeping notes, labels and alerts if it is already there
   static async addToFavorites(data: CreateFavoriteData): Promise<void> {
     const currentUser = auth.currentUser;
     if (!currentUser) {
-      throw new Error('User must be authenticated to add favorites');
+      const favorites = await readGuestFavorites();
+      const existing = favorites.find((f) => f.stationId === data.stationId);
+      await writeGuestFavorites([
+        ...favorites.filter((f) => f.stationId !== data.stationId),
+        {
+          ...data,
+          id: data.stationId,
+          notes: data.notes ?? existing?.notes ?? '',
+          labels: data.labels ?? existing?.labels ?? [],
+          addedAt: existing?.addedAt ?? new Date(),
+          sortOrder: existing?.sortOrder ?? Date.now(),
+          notifyOnChange: existing?.notifyOnChange ?? false,
+        },
+      ]);
+      return;
     }
-    
-    await UserService.addToFavorites(currentUser.uid, data.stationId);
+
+    const existing = await FirestoreService.getDocument<FavoriteStation>(
+      favoritesPath(currentUser.uid),
+      data.stationId
+    );
+
+    await FirestoreService.setDocument(favoritesPath(currentUser.uid), data.stationId, {
+      stationId: data.stationId,
+      stationName: data.stationName,
+      stationAddress: data.stationAddress,
+      stationOperator: data.stationOperator,
+      notes: data.notes ?? existing?.notes ?? '',
+      labels: data.labels ?? existing?.labels ?? [],
+      addedAt: existing ? fromDocument(existing).addedAt : new Date(),
+      sortOrder: existing?.sortOrder ?? Date.now(),
+      notifyOnChange: existing?.notifyOnChange ?? false,
+    });
   }
 
-  // Remove a station from favorites
+  // Remove a station from favorites and from every list that holds it
   static async removeFromFavorites(stationId: string): Promise<void> {
     const currentUser = auth.currentUser;
     if (!currentUser) {
-      throw new Error('User must be authenticated to remove favorites');
+      const favorites = await readGuestFavorites();
+      await writeGuestFavorites(favorites.filter((f) => f.stationId !== stationId));
+      return;
     }
-    
-    await UserService.removeFromFavorites(currentUser.uid, stationId);
+
+    const lists = await FirestoreService.getDocuments<FavoriteList>(
+      favoriteListsPath(currentUser.uid),
+      { where: [{ field: 'stationIds', operator: 'array-contains', value: stationId }] }
+    );
+    await FirestoreService.batchWrite([
+      { type: 'delete', collection: favoritesPath(currentUser.uid), id: stationId },
+      ...lists.map((list) => ({
+        type: 'update' as const,
+        collection: favoriteListsPath(currentUser.uid),
+        id: list.id,
+        data: { stationIds: arrayRemove(stationId) },
+      })),
+    ]);
   }
 
   // Toggle favorite status
   static async toggleFavorite(data: CreateFavoriteData): Promise<boolean> {
-    const currentUser = auth.currentUser;
-    if (!currentUser) {
-      throw new Error('User must be authenticated to toggle favorites');
-    }
-    
     const isFavorited = await this.isStationFavorited(data.stationId);
-    
+
     if (isFavorited) {
       await this.removeFromFavorites(data.stationId);
       return false;
@@ -71,30 +191,184 @@ export class FavoritesService {
     }
   }
 
+  // Edit the user's notes, labels or change alerts on a favorite
+  static async updateFavorite(stationId: string, updates: UpdateFavoriteData): Promise<void> {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      const favorites = await readGuestFavorites();
+      await writeGuestFavorites(
+        favorites.map((f) => (f.stationId === stationId ? { ...f, ...updates } : f))
+      );
+      return;
+    }
+    await FirestoreService.updateDocument(favoritesPath(currentUser.uid), stationId, updates);
+  }
+
+  /**
+   * Persist a new custom order.
+   * @param stationIds Every favorite's station ID, first to last
+   */
+  static async reorderFavorites(stationIds: string[]): Promise<void> {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      const favorites = await readGuestFavorites();
+      await writeGuestFavorites(
+        favorites.map((f) => ({ ...f, sortOrder: stationIds.indexOf(f.stationId) }))
+      );
+      return;
+    }
+    await FirestoreService.batchWrite(
+      stationIds.map((stationId, index) => ({
+        type: 'update' as const,
+        collection: favoritesPath(currentUser.uid),
+        id: stationId,
+        data: { sortOrder: index },
+      }))
+    );
+  }
+
+  // Create a list, optionally with some favorites already in it
+  static async createFavoriteList(name: string, stationIds: string[] = []): Promise<string> {
+    const currentUser = requireUser('create favorite lists');
+    return await FirestoreService.addDocument(favoriteListsPath(currentUser.uid), {
+      name,
+      stationIds,
+    });
+  }
+
+  static async renameFavoriteList(listId: string, name: string): Promise<void> {
+    const currentUser = requireUser('rename favorite lists');
+    await FirestoreService.updateDocument(favoriteListsPath(currentUser.uid), listId, { name });
+  }
+
+  // Delete a list; its stations stay favorites
+  static async deleteFavoriteList(listId: string): Promise<void> {
+    const currentUser = requireUser('delete favorite lists');
+    await FirestoreService.deleteDocument(favoriteListsPath(currentUser.uid), listId);
+  }
+
+  // Put a favorite into a list or take it out
+  static async setStationInList(listId: string, stationId: string, included: boolean): Promise<void> {
+    const currentUser = requireUser('edit favorite lists');
+    await FirestoreService.updateDocument(favoriteListsPath(currentUser.uid), listId, {
+      stationIds: included ? arrayUnion(stationId) : arrayRemove(stationId),
+    });
+  }
+
+  // Subscribe to the current user's lists, oldest first
+  static subscribeToFavoriteLists(callback: (lists: FavoriteList[]) => void) {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      callback([]);
+      return () => {};
+    }
+
+    return FirestoreService.subscribeToCollection<FavoriteList>(
+      favoriteListsPath(currentUser.uid),
+      (documents) => callback(documents.map(listFromDocument)),
+      { orderBy: [{ field: 'createdAt', direction: 'asc' }] }
+    );
+  }
+
   // Get favorite count for current user
   static async getFavoriteCount(): Promise<number> {
     const favoriteIds = await this.getUserFavoriteStationIds();
     return favoriteIds.length;
   }
 
-  // Subscribe to user's favorites changes
+  // Subscribe to the current user's favorites, in their chosen order
   static subscribeToUserFavorites(
-    callback: (favoriteStationIds: string[]) => void
+    callback: (favorites: FavoriteStation[]) => void
   ) {
     const currentUser = auth.currentUser;
     if (!currentUser) {
-      callback([]);
-      return () => {};
+      return subscribeToGuestFavorites(callback);
     }
-    
-    // Subscribe to user profile changes to get real-time favorites updates
-    return UserService.subscribeToCurrentUserProfile((profile) => {
-      if (profile) {
-        callback(profile.favorites || []);
-      } else {
-        callback([]);
-      }
-    });
+
+    return FirestoreService.subscribeToCollection<FavoriteStation>(
+      favoritesPath(currentUser.uid),
+      (documents) => callback(documents.map(fromDocument)),
+      { orderBy: [{ field: 'sortOrder', direction: 'asc' }] }
+    );
+  }
+
+  /**
+   * Move favorites from the legacy `favorites` ID array on the user document into
+   * the subcollection, filling in station details from the cached or bundled
+   * stations. Does nothing once the array is gone.
+   * @returns Number of favorites migrated
+   */
+  static async migrateLegacyFavorites(userId: string): Promise<number> {
+    const profile = await UserService.getUserById(userId);
+    const legacyIds = profile?.favorites;
+    if (!legacyIds) return 0;
+
+    const snapshot = await readStationsSnapshot();
+    const stations = snapshot?.stations ?? loadBundledStations();
+    const existingIds = new Set(
+      (await FirestoreService.getDocuments<FavoriteStation>(favoritesPath(userId))).map((f) => f.id)
+    );
+
+    const now = new Date();
+    const writes = [...new Set(legacyIds)]
+      .filter((stationId) => !existingIds.has(stationId))
+      .map((stationId, index) => {
+        const station = stations.find((s) => s.ID === stationId);
+        return {
+          type: 'set' as const,
+          collection: favoritesPath(userId),
+          id: stationId,
+          data: {
+            stationId,
+            stationName: station?.title.en ?? '',
+            stationAddress: station ? `${station.address.en}, ${station.town.en}` : '',
+            stationOperator: station?.operator ?? '',
+            notes: '',
+            labels: [],
+            addedAt: now,
+            // Keep the array order, ahead of anything added since
+            sortOrder: index,
+          },
+        };
+      });
+
+    // One batch, so a half-finished migration never drops the array
+    await FirestoreService.batchWrite([
+      ...writes,
+      { type: 'update', collection: collections.users, id: userId, data: { favorites: deleteField() } },
+    ]);
+    return writes.length;
+  }
+
+  /**
+   * Copy favorites saved on the device in guest mode into the user's account,
+   * skipping stations they already have, then clear the device copy.
+   * @returns Number of favorites added to the account
+   */
+  static async mergeGuestFavorites(userId: string): Promise<number> {
+    const guestFavorites = await readGuestFavorites();
+    if (guestFavorites.length === 0) return 0;
+
+    const existingIds = new Set(
+      (await FirestoreService.getDocuments<FavoriteStation>(favoritesPath(userId))).map((f) => f.id)
+    );
+
+    // After the account's own favorites, in the order the guest kept them
+    const base = Date.now();
+    const writes = guestFavorites
+      .filter((f) => !existingIds.has(f.stationId))
+      .map(({ id, ...favorite }, index) => ({
+        type: 'set' as const,
+        collection: favoritesPath(userId),
+        id: favorite.stationId,
+        data: { ...favorite, sortOrder: base + index },
+      }));
+
+    if (writes.length > 0) {
+      await FirestoreService.batchWrite(writes);
+    }
+    await clearGuestFavorites();
+    return writes.length;
   }
 }
 
@@ -1,6 +1,7 @@
 // src/services/firestore.ts
 import {
   collection,
+  collectionGroup,
   doc,
   getDoc,
   getDocs,
@@ -45,6 +46,12 @@ export const collections = {
   users: 'users',
   chargingStations: 'chargingStations',
   userPreferences: 'userPreferences',
+  stationReports: 'stationReports',
+  stationReportSignals: 'stationReportSignals', // stationReports without author or comment
+  checkIns: 'checkIns', // subcollection of chargingStations
+  chargingSessions: 'chargingSessions', // subcollection of users
+  favorites: 'favorites', // subcollection of users
+  favoriteLists: 'favoriteLists', // subcollection of users
 } as const;
 
 // Generic CRUD operations
@@ -111,6 +118,44 @@ export class FirestoreService {
     }
   }
 
+  // Get documents from every subcollection with this name, e.g. all check-ins
+  static async getCollectionGroupDocuments<T extends FirestoreDocument>(
+    collectionId: string,
+    options?: QueryOptions
+  ): Promise<T[]> {
+    try {
+      let q: Query<DocumentData> = collectionGroup(db, collectionId);
+
+      // Apply where clauses
+      if (options?.where) {
+        options.where.forEach(({ field, operator, value }) => {
+          q = query(q, where(field, operator, value));
+        });
+      }
+
+      // Apply ordering
+      if (options?.orderBy) {
+        options.orderBy.forEach(({ field, direction = 'asc' }) => {
+          q = query(q, orderBy(field, direction));
+        });
+      }
+
+      // Apply limit
+      if (options?.limit) {
+        q = query(q, limit(options.limit));
+      }
+
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      })) as T[];
+    } catch (error) {
+      console.error('Error getting collection group documents:', error);
+      throw error;
+    }
+  }
+
   // Add a new document
   static async addDocument<T extends Omit<FirestoreDocument, 'id'>>(
     collectionName: string,
@@ -180,6 +225,11 @@ export class FirestoreService {
     }
   }
 
+  // A fresh ID for a document in this collection, for batches that create several documents
+  static newDocumentId(collectionName: string): string {
+    return doc(collection(db, collectionName)).id;
+  }
+
   // Get a document reference
   static getDocumentRef(collectionName: string, documentId: string): DocumentReference {
     return doc(db, collectionName, documentId);
@@ -0,0 +1,47 @@
+// src/services/guestFavorites.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { eventEmitter, EVENTS } from '../utils/eventEmitter';
+import type { FavoriteStation } from './favoritesService';
+
+// Favorites saved on the device while nobody is signed in
+const GUEST_FAVORITES_KEY = 'guest-favorites-v1';
+
+export async function readGuestFavorites(): Promise<FavoriteStation[]> {
+  try {
+    const raw = await AsyncStorage.getItem(GUEST_FAVORITES_KEY);
+    if (!raw) return [];
+    const stored = JSON.parse(raw) as Array<FavoriteStation & { addedAt: string }>;
+    return stored
+      .map((f) => ({ ...f, addedAt: new Date(f.addedAt) }))
+      .sort((a, b) => a.sortOrder - b.sortOrder);
+  } catch (error) {
+    console.error('Error reading guest favorites:', error);
+    return [];
+  }
+}
+
+// Saves the list and tells subscribers, standing in for a Firestore snapshot
+export async function writeGuestFavorites(favorites: FavoriteStation[]): Promise<void> {
+  const sorted = [...favorites].sort((a, b) => a.sortOrder - b.sortOrder);
+  await AsyncStorage.setItem(GUEST_FAVORITES_KEY, JSON.stringify(sorted));
+  eventEmitter.emit(EVENTS.GUEST_FAVORITES_CHANGED, sorted);
+}
+
+export async function clearGuestFavorites(): Promise<void> {
+  await AsyncStorage.removeItem(GUEST_FAVORITES_KEY);
+  eventEmitter.emit(EVENTS.GUEST_FAVORITES_CHANGED, []);
+}
+
+export function subscribeToGuestFavorites(callback: (favorites: FavoriteStation[]) => void) {
+  let active = true;
+  readGuestFavorites().then((favorites) => {
+    if (active) callback(favorites);
+  });
+
+  const handleChange = (favorites: FavoriteStation[]) => callback(favorites);
+  eventEmitter.on(EVENTS.GUEST_FAVORITES_CHANGED, handleChange);
+  return () => {
+    active = false;
+    eventEmitter.off(EVENTS.GUEST_FAVORITES_CHANGED, handleChange);
+  };
+}
@@ -1,7 +1,10 @@
 // src/services/index.ts
 export { default as FirestoreService } from './firestore';
 export { default as UserService } from './userService';
-export { default as FavoritesService } from './favoritesService';
+export { default as FavoritesService, SUGGESTED_FAVORITE_LABELS } from './favoritesService';
+export { default as CheckInsService } from './checkInsService';
+export { default as StationReportsService, STATION_REPORT_TYPES } from './stationReportsService';
+export { defaultNotifier, createLocalNotifier, getNotificationInbox, markNotificationsRead } from './notifications';
 
 // Export types
 export type {
@@ -12,12 +15,37 @@ export type {
 export type {
   UserProfile,
   CreateUserProfileData,
+  VehicleProfile,
+  CreateVehicleData,
+  ChargingSession,
+  CreateChargingSessionData,
+  NewStationAlerts,
 } from './userService';
 
 export type {
   FavoriteStation,
   CreateFavoriteData,
+  UpdateFavoriteData,
+  FavoriteList,
 } from './favoritesService';
 
+export type {
+  StationReport,
+  StationReportSignal,
+  StationReportType,
+  CreateStationReportData,
+} from './stationReportsService';
+
+export type {
+  AppNotification,
+  NotificationContent,
+  Notifier,
+} from './notifications';
+
+export type {
+  CheckIn,
+  CreateCheckInData,
+} from './checkInsService';
+
 // Export collections
 export { collections } from './firestore';
@@ -0,0 +1,69 @@
+// src/services/notifications.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { eventEmitter, EVENTS } from '../utils/eventEmitter';
+
+export interface AppNotification {
+  id: string;
+  title: string;
+  body: string;
+  stationId?: string; // opens the station when tapped
+  createdAt: string; // ISO
+  read: boolean;
+}
+
+export type NotificationContent = Pick<AppNotification, 'title' | 'body' | 'stationId'>;
+
+// Anything that can deliver notifications to the user, e.g. an OS push channel.
+// Everything one check found arrives in a single call, so it can be announced once
+export type Notifier = {
+  name: string;
+  notify: (contents: NotificationContent[]) => Promise<void>;
+};
+
+const INBOX_KEY = 'notifications-inbox-v1';
+const INBOX_LIMIT = 50;
+
+// Newest first
+export async function getNotificationInbox(): Promise<AppNotification[]> {
+  try {
+    const raw = await AsyncStorage.getItem(INBOX_KEY);
+    return raw ? (JSON.parse(raw) as AppNotification[]) : [];
+  } catch (error) {
+    console.error('Error reading notifications:', error);
+    return [];
+  }
+}
+
+export async function markNotificationsRead(): Promise<void> {
+  const inbox = await getNotificationInbox();
+  if (!inbox.some((n) => !n.read)) return;
+  await AsyncStorage.setItem(INBOX_KEY, JSON.stringify(inbox.map((n) => ({ ...n, read: true }))));
+  eventEmitter.emit(EVENTS.NOTIFICATIONS_READ);
+}
+
+/**
+ * Local notifications: kept in an on-device inbox, listed on the notifications
+ * screen, and announced to the running app through the event emitter. Nothing
+ * leaves the device, so it works for guests and offline; while the app is
+ * closed they wait in the inbox.
+ */
+export function createLocalNotifier(): Notifier {
+  return {
+    name: 'local',
+    notify: async (contents) => {
+      if (contents.length === 0) return;
+      const createdAt = new Date().toISOString();
+      const notifications: AppNotification[] = contents.map((content) => ({
+        ...content,
+        id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+        createdAt,
+        read: false,
+      }));
+      const inbox = await getNotificationInbox();
+      await AsyncStorage.setItem(INBOX_KEY, JSON.stringify([...notifications, ...inbox].slice(0, INBOX_LIMIT)));
+      eventEmitter.emit(EVENTS.NOTIFICATIONS_RECEIVED, notifications);
+    },
+  };
+}
+
+export const defaultNotifier: Notifier = createLocalNotifier();
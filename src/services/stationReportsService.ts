@@ -0,0 +1,194 @@
+// src/services/stationReportsService.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import FirestoreService, { collections } from './firestore';
+import { auth } from '../config/firebase';
+
+export type StationReportType =
+  | 'brokenConnector'
+  | 'wrongLocation'
+  | 'wrongPower'
+  | 'blockedByICE'
+  | 'priceChanged'
+  | 'newStation';
+
+export const STATION_REPORT_TYPES: StationReportType[] = [
+  'brokenConnector',
+  'wrongLocation',
+  'wrongPower',
+  'blockedByICE',
+  'priceChanged',
+  'newStation',
+];
+
+export interface StationReport {
+  id: string;
+  userId: string;
+  stationId: string;
+  stationName: string;
+  type: StationReportType;
+  comment?: string;
+  photoUri?: string;
+  coordinates?: { latitude: number; longitude: number };
+  status: 'open' | 'resolved';
+  reportedAt: string; // ISO, when the user filed it; createdAt is when it reached Firestore
+  pending?: boolean; // still in the offline queue
+}
+
+// What other users may see of a report: no author, comment, photo or location
+export type StationReportSignal = Pick<StationReport, 'id' | 'stationId' | 'type' | 'status' | 'reportedAt'>;
+
+export interface CreateStationReportData {
+  stationId: string;
+  stationName: string;
+  type: StationReportType;
+  comment?: string;
+  photoUri?: string;
+  coordinates?: { latitude: number; longitude: number };
+}
+
+const QUEUE_KEY = 'station-reports-queue-v1';
+
+// How long a submission waits for Firestore before staying queued
+const SEND_TIMEOUT_MS = 8000;
+
+let flushing: Promise<number> | null = null;
+// Queue read-modify-writes run one after another, so a submit and a flush cannot drop each other's changes
+let queueUpdate: Promise<void> = Promise.resolve();
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Timed out')), ms);
+    promise.then(
+      (value) => { clearTimeout(timer); resolve(value); },
+      (error) => { clearTimeout(timer); reject(error); }
+    );
+  });
+
+// Firestore rejects undefined fields
+const withoutUndefined = <T extends object>(data: T): T =>
+  Object.fromEntries(Object.entries(data).filter(([, v]) => v !== undefined)) as T;
+
+export class StationReportsService {
+  // Reports waiting to be written, oldest first
+  static async getQueuedReports(): Promise<StationReport[]> {
+    try {
+      const raw = await AsyncStorage.getItem(QUEUE_KEY);
+      return raw ? (JSON.parse(raw) as StationReport[]) : [];
+    } catch (error) {
+      console.error('Error reading report queue:', error);
+      return [];
+    }
+  }
+
+  private static updateQueue(update: (reports: StationReport[]) => StationReport[]): Promise<void> {
+    const run = queueUpdate.catch(() => {}).then(async () => {
+      const reports = await this.getQueuedReports();
+      await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(update(reports)));
+    });
+    queueUpdate = run;
+    return run;
+  }
+
+  /**
+   * File a report for the current user. The report is queued on the device first,
+   * so it survives going offline or closing the app before Firestore confirms it.
+   * @returns true when it reached Firestore, false when it stays queued
+   */
+  static async submitReport(data: CreateStationReportData): Promise<boolean> {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      throw new Error('User must be authenticated to report station issues');
+    }
+
+    // A client-side id makes retries overwrite rather than duplicate
+    const report: StationReport = withoutUndefined({
+      ...data,
+      id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+      userId: currentUser.uid,
+      status: 'open' as const,
+      reportedAt: new Date().toISOString(),
+    });
+
+    await this.updateQueue((queue) => [...queue, report]);
+
+    await this.flushQueue();
+    const remaining = await this.getQueuedReports();
+    return !remaining.some((r) => r.id === report.id);
+  }
+
+  /**
+   * Send queued reports to Firestore. Safe to call repeatedly; runs one at a time,
+   * each after the previous one, so a report queued while a run is going is sent too.
+   * @returns Number of reports sent by this call's run
+   */
+  static flushQueue(): Promise<number> {
+    const queued = (flushing ?? Promise.resolve(0)).catch(() => 0).then(() => this.sendQueued());
+    flushing = queued;
+    return queued;
+  }
+
+  private static async sendQueued(): Promise<number> {
+    const queue = await this.getQueuedReports();
+    const sent = new Set<string>();
+
+    for (const report of queue) {
+      // Only the author may write their reports
+      if (report.userId !== auth.currentUser?.uid) continue;
+      try {
+        const { id, pending, ...data } = report;
+        const signal = { stationId: data.stationId, type: data.type, status: data.status, reportedAt: data.reportedAt };
+        // The report and its redacted copy for reliability scores land together
+        await withTimeout(
+          FirestoreService.batchWrite([
+            { type: 'set', collection: collections.stationReports, id, data },
+            { type: 'set', collection: collections.stationReportSignals, id, data: signal },
+          ]),
+          SEND_TIMEOUT_MS
+        );
+        sent.add(id);
+      } catch (error) {
+        console.warn('Station report stays queued:', error);
+        break;
+      }
+    }
+
+    if (sent.size > 0) {
+      // Re-read so reports queued during the run are kept
+      await this.updateQueue((latest) => latest.filter((r) => !sent.has(r.id)));
+    }
+    return sent.size;
+  }
+
+  // Open and resolved reports for every station since the given date, for reliability scores.
+  // Reads the redacted copies; the reports themselves are only readable by their author
+  static async getRecentReports(since: Date): Promise<StationReportSignal[]> {
+    return await FirestoreService.getDocuments<StationReportSignal>(
+      collections.stationReportSignals,
+      { where: [{ field: 'reportedAt', operator: '>=', value: since.toISOString() }] }
+    );
+  }
+
+  // Subscribe to the current user's reports, newest first, queued ones included
+  static subscribeToMyReports(callback: (reports: StationReport[]) => void) {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      callback([]);
+      return () => {};
+    }
+
+    return FirestoreService.subscribeToCollection<StationReport>(
+      collections.stationReports,
+      async (reports) => {
+        const queued = (await this.getQueuedReports())
+          .filter((r) => r.userId === currentUser.uid && !reports.some((s) => s.id === r.id))
+          .map((r) => ({ ...r, pending: true }));
+        callback(
+          [...queued, ...reports].sort((a, b) => b.reportedAt.localeCompare(a.reportedAt))
+        );
+      },
+      { where: [{ field: 'userId', operator: '==', value: currentUser.uid }] }
+    );
+  }
+}
+
+export default StationReportsService;
@@ -1,6 +1,41 @@
 // src/services/userService.ts
 import FirestoreService, { collections } from './firestore';
 import { auth } from '../config/firebase';
+import type { ConnectorType } from '../types/ocm';
+
+export interface VehicleProfile {
+  id: string;
+  make: string;
+  model: string;
+  batteryKWh: number; // usable capacity
+  connectorTypes: ConnectorType[]; // inlets the car can physically use
+  maxACKW: number;
+  maxDCKW: number; // 0 for AC-only cars
+  efficiencyKWhPer100Km: number;
+}
+
+export type CreateVehicleData = Omit<VehicleProfile, 'id'>;
+
+export interface ChargingSession {
+  id: string;
+  stationId?: string; // unset for stations that are not in the dataset
+  stationName: string;
+  operator: string;
+  startedAt: Date;
+  kWh: number;
+  cost?: number; // in `currency`; unset when the user did not know it
+  currency?: string; // ISO 4217, EUR for sessions saved before it was stored
+  source: 'manual' | 'checkIn';
+  checkInId?: string;
+}
+
+export type CreateChargingSessionData = Omit<ChargingSession, 'id'>;
+
+// Announce newly added stations in these districts (English name) or from these operators
+export interface NewStationAlerts {
+  districts: string[];
+  operators: string[];
+}
 
 export interface UserProfile {
   id: string;
@@ -8,10 +43,13 @@ export interface UserProfile {
   email: string;
   firstName: string;
   lastName: string;
-  favorites?: string[]; // Array of station IDs
+  favorites?: string[]; // Legacy station ID array, moved to users/{uid}/favorites on login
+  vehicles?: VehicleProfile[];
+  activeVehicleId?: string | null;
   preferences?: {
     language?: string;
     units?: 'metric' | 'imperial';
+    newStationAlerts?: NewStationAlerts;
   };
   createdAt: Date;
   updatedAt: Date;
@@ -22,13 +60,16 @@ export interface CreateUserProfileData {
   email: string;
   firstName: string;
   lastName: string;
-  favorites?: string[];
   preferences?: {
     language?: string;
     units?: 'metric' | 'imperial';
   };
 }
 
+// Sessions live under the user: users/{userId}/chargingSessions
+export const chargingSessionsPath = (userId: string) =>
+  `${collections.users}/${userId}/${collections.chargingSessions}`;
+
 export class UserService {
   // Get current user's profile
   static async getCurrentUserProfile(): Promise<UserProfile | null> {
@@ -46,7 +87,6 @@ export class UserService {
     const userData = {
       ...data,
       uid: userId, // Store the Firebase Auth UID
-      favorites: data.favorites || [], // Initialize empty favorites array if not provided
       preferences: {
         language: data.preferences?.language || 'en', // Default to English ('en')
         units: data.preferences?.units || 'metric', // Default to metric
@@ -151,56 +191,99 @@ export class UserService {
         email,
         firstName: '',
         lastName: '',
-        // favorites and preferences will be set with defaults in createUserProfile
+        // preferences will be set with defaults in createUserProfile
       });
     }
   }
 
-  // Add a station to user's favorites
-  static async addToFavorites(userId: string, stationId: string): Promise<void> {
+  // Add a vehicle to the user's garage; the first one becomes active
+  static async addVehicle(userId: string, data: CreateVehicleData): Promise<VehicleProfile> {
     const profile = await this.getUserById(userId);
     if (!profile) {
       throw new Error('User profile not found');
     }
 
-    const currentFavorites = profile.favorites || [];
-    if (!currentFavorites.includes(stationId)) {
-      await this.updateUserProfile(userId, {
-        favorites: [...currentFavorites, stationId]
-      });
-    }
+    const vehicle: VehicleProfile = {
+      ...data,
+      id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+    };
+    const vehicles = [...(profile.vehicles || []), vehicle];
+
+    await this.updateUserProfile(userId, {
+      vehicles,
+      activeVehicleId: profile.activeVehicleId || vehicle.id,
+    });
+    return vehicle;
   }
 
-  // Remove a station from user's favorites
-  static async removeFromFavorites(userId: string, stationId: string): Promise<void> {
+  // Update a vehicle in the user's garage
+  static async updateVehicle(userId: string, vehicleId: string, updates: Partial<CreateVehicleData>): Promise<void> {
     const profile = await this.getUserById(userId);
     if (!profile) {
       throw new Error('User profile not found');
     }
 
-    const currentFavorites = profile.favorites || [];
-    const updatedFavorites = currentFavorites.filter(id => id !== stationId);
-    
-    await this.updateUserProfile(userId, {
-      favorites: updatedFavorites
-    });
+    const vehicles = (profile.vehicles || []).map(v =>
+      v.id === vehicleId ? { ...v, ...updates, id: v.id } : v
+    );
+    await this.updateUserProfile(userId, { vehicles });
   }
 
-  // Check if a station is in user's favorites
-  static async isStationFavorited(userId: string, stationId: string): Promise<boolean> {
+  // Remove a vehicle; if it was active, the next one takes over
+  static async removeVehicle(userId: string, vehicleId: string): Promise<void> {
     const profile = await this.getUserById(userId);
-    if (!profile) return false;
-    
-    const favorites = profile.favorites || [];
-    return favorites.includes(stationId);
+    if (!profile) {
+      throw new Error('User profile not found');
+    }
+
+    const vehicles = (profile.vehicles || []).filter(v => v.id !== vehicleId);
+    const activeVehicleId = profile.activeVehicleId === vehicleId
+      ? vehicles[0]?.id ?? null
+      : profile.activeVehicleId ?? null;
+
+    await this.updateUserProfile(userId, { vehicles, activeVehicleId });
   }
 
-  // Get user's favorite station IDs
-  static async getUserFavoriteStationIds(userId: string): Promise<string[]> {
-    const profile = await this.getUserById(userId);
-    if (!profile) return [];
-    
-    return profile.favorites || [];
+  // Set the vehicle used for compatibility filters and estimates
+  static async setActiveVehicle(userId: string, vehicleId: string | null): Promise<void> {
+    await this.updateUserProfile(userId, { activeVehicleId: vehicleId });
+  }
+
+  // Resolve the active vehicle of a profile
+  static getActiveVehicle(profile: UserProfile | null): VehicleProfile | null {
+    if (!profile?.vehicles?.length) return null;
+    return profile.vehicles.find(v => v.id === profile.activeVehicleId) ?? null;
+  }
+
+  // Record a charging session in the user's history
+  static async addChargingSession(userId: string, data: CreateChargingSessionData): Promise<string> {
+    // Firestore rejects undefined fields
+    const session = Object.fromEntries(
+      Object.entries(data).filter(([, v]) => v !== undefined)
+    ) as CreateChargingSessionData;
+    return await FirestoreService.addDocument(chargingSessionsPath(userId), session);
+  }
+
+  // Remove a session from the user's history
+  static async deleteChargingSession(userId: string, sessionId: string): Promise<void> {
+    await FirestoreService.deleteDocument(chargingSessionsPath(userId), sessionId);
+  }
+
+  // Subscribe to the user's charging sessions, newest first
+  static subscribeToChargingSessions(
+    userId: string,
+    callback: (sessions: ChargingSession[]) => void
+  ) {
+    return FirestoreService.subscribeToCollection<ChargingSession>(
+      chargingSessionsPath(userId),
+      (documents) => callback(documents.map((d) => ({
+        ...d,
+        startedAt: d.startedAt instanceof Date
+          ? d.startedAt
+          : FirestoreService.timestampToDate(d.startedAt as any) ?? new Date(),
+      }))),
+      { orderBy: [{ field: 'startedAt', direction: 'desc' }] }
+    );
   }
 }
 
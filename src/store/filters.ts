@@ -1,19 +1,29 @@
 import { create } from "zustand";
+import { ANY_POWER, type PowerRange } from "../utils/power";
+import { CONNECTOR_TYPES } from "../utils/connectors";
+import type { ConnectorType } from "../types/ocm";
+import type { VehicleProfile } from "../services";
 
 export type FiltersState = {
   query: string;
-  connectorTypes: Set<string>; // e.g., "CCS (Type 2)", "Type 2 (Socket Only)", "CHAdeMO"
-  powerKW: Set<number>;
+  connectorTypes: Set<ConnectorType>;
+  powerRange: PowerRange;     // connection power must fall inside
   dcOnly: boolean;
   acOnly: boolean;
   onlyOperational: boolean;
   districts: Set<string>;
   operators: Set<string>;
+  compatibleOnly: boolean;    // only connections the active vehicle can use
+  vehicle: VehicleProfile | null;
+  minReliability: number;     // 0–1, 0 shows every station
   set: (fn: (s: FiltersState) => Partial<FiltersState>) => void;
   toggleDistrict: (district: string) => void;
   toggleOperator: (operator: string) => void;
-  togglePower: (power: number) => void;
-  toggleConnectorType: (type: string) => void;
+  toggleConnectorType: (type: ConnectorType) => void;
+  setPowerRange: (range: PowerRange) => void;
+  setCompatibleOnly: (value: boolean) => void;
+  setVehicle: (vehicle: VehicleProfile | null) => void;
+  setMinReliability: (value: number) => void;
   selectAllDistricts: () => void;
   selectAllOperators: () => void;
   selectAllPower: () => void;
@@ -21,22 +31,32 @@ export type FiltersState = {
   selectAllCurrent: () => void;
   clearDistricts: () => void;
   clearOperators: () => void;
-  clearPower: () => void;
   clearConnectorTypes: () => void;
   clearCurrent: () => void;
   initializeDistricts: (allDistricts: string[]) => void;
   initializeOperators: (allOperators: string[]) => void;
 };
 
-export const useFilters = create<FiltersState>((set) => ({
+// The filters as a fresh start sets them; the vehicle follows the profile instead
+export const defaultFilters = (): Pick<FiltersState,
+  "query" | "connectorTypes" | "powerRange" | "dcOnly" | "acOnly" | "onlyOperational" |
+  "districts" | "operators" | "compatibleOnly" | "minReliability"
+> => ({
   query: "",
-  connectorTypes: new Set(["CCS (Type 2)", "CHAdeMO", "Type 2 (Socket Only)", "Unknown/Other"]),
-  powerKW: new Set([7, 22, 50, 150]),
+  connectorTypes: new Set(CONNECTOR_TYPES),
+  powerRange: ANY_POWER,
   dcOnly: true,
   acOnly: true,
   onlyOperational: false,
   districts: new Set(),
   operators: new Set(),
+  compatibleOnly: true,
+  minReliability: 0,
+});
+
+export const useFilters = create<FiltersState>((set) => ({
+  ...defaultFilters(),
+  vehicle: null,
   set: (fn) => set((s) => ({ ...s, ...fn(s) })),
   toggleDistrict: (district) => set((s) => {
     const next = new Set(s.districts);
@@ -48,24 +68,22 @@ export const useFilters = create<FiltersState>((set) => ({
     if (next.has(operator)) next.delete(operator); else next.add(operator);
     return { operators: next } as Partial<FiltersState>;
   }),
-  togglePower: (power) => set((s) => {
-    const next = new Set(s.powerKW);
-    if (next.has(power)) next.delete(power); else next.add(power);
-    return { powerKW: next } as Partial<FiltersState>;
-  }),
   toggleConnectorType: (type) => set((s) => {
     const next = new Set(s.connectorTypes);
     if (next.has(type)) next.delete(type); else next.add(type);
     return { connectorTypes: next } as Partial<FiltersState>;
   }),
+  setPowerRange: (range) => set(() => ({ powerRange: range })),
+  setCompatibleOnly: (value) => set(() => ({ compatibleOnly: value })),
+  setVehicle: (vehicle) => set(() => ({ vehicle })),
+  setMinReliability: (value) => set(() => ({ minReliability: value })),
   selectAllDistricts: () => set((s) => ({ districts: new Set() })),
   selectAllOperators: () => set((s) => ({ operators: new Set() })),
-  selectAllPower: () => set(() => ({ powerKW: new Set([7, 22, 50, 150]) })),
-  selectAllConnectorTypes: () => set(() => ({ connectorTypes: new Set(["CCS (Type 2)", "CHAdeMO", "Type 2 (Socket Only)", "Unknown/Other"]) })),
+  selectAllPower: () => set(() => ({ powerRange: ANY_POWER })),
+  selectAllConnectorTypes: () => set(() => ({ connectorTypes: new Set(CONNECTOR_TYPES) })),
   selectAllCurrent: () => set(() => ({ acOnly: true, dcOnly: true })),
   clearDistricts: () => set(() => ({ districts: new Set() })),
   clearOperators: () => set(() => ({ operators: new Set() })),
-  clearPower: () => set(() => ({ powerKW: new Set() })),
   clearConnectorTypes: () => set(() => ({ connectorTypes: new Set() })),
   clearCurrent: () => set(() => ({ acOnly: false, dcOnly: false })),
   initializeDistricts: (allDistricts: string[]) => set(() => ({ districts: new Set(allDistricts) })),
@@ -1,11 +1,58 @@
 export type Localized = { en: string; el: string };
 
+// Canonical connector taxonomy, normalized from the feed's free-text type
+export type ConnectorType =
+  | "CCS1"
+  | "CCS2"
+  | "CHAdeMO"
+  | "Type1"
+  | "Type2Socket"
+  | "Type2Tethered"
+  | "Schuko"
+  | "NACS"                      // Tesla / SAE J3400
+  | "GBT"
+  | "Unknown";
+
+// Real-time state of a connector, from a status provider
+export type LiveStatus = "Available" | "Occupied" | "OutOfOrder" | "Unknown";
+
 export type Connection = {
-  type: string;                 // e.g., "CCS (Type 2)"
+  type: string;                 // raw feed value, e.g., "CCS (Type 2)"
+  connectorType: ConnectorType;
   powerKW: number;              // 7–150
   current: string;              // "AC (Three-Phase)" | "DC" | "Unknown"
   status: string;               // "Operational" | ...
   quantity: number;             // count per connector type
+  evseId?: string;              // OCPI EVSE the connector belongs to
+  liveStatus?: LiveStatus;      // set when a status provider reports on it
+};
+
+export type TariffWindow = {
+  start: string;                // "HH:MM", local time
+  end: string;                  // "HH:MM", may wrap past midnight
+  pricePerKWh?: number;
+  pricePerMinute?: number;
+};
+
+export type Tariff = {
+  currency: string;             // ISO 4217, e.g. "EUR"
+  pricePerKWh?: number;
+  pricePerMinute?: number;
+  sessionFee?: number;
+  idleFeePerMinute?: number;
+  windows: TariffWindow[];      // time-of-day overrides of the base prices
+  raw: string;                  // text it was parsed from
+};
+
+// Feeds a station can come from, highest priority first in the aggregator
+export type StationSourceId = "ocpi" | "backend" | "ocm" | "bundled";
+
+// Groups of Station fields that are resolved together when feeds disagree
+export type StationField = "title" | "address" | "location" | "operator" | "connections" | "pricing" | "link";
+
+export type FieldProvenance = {
+  source: StationSourceId;
+  lastSeen: string;             // ISO, last_seen of the record the value came from
 };
 
 export type Station = {
@@ -21,11 +68,17 @@ export type Station = {
   operator: string; // TODO: Change to Localized
   connections: Connection[];
   number_of_points: number;
-  usage_cost: string; // TODO: Change to number
+  usage_cost: string;           // free text from the feed
+  tariff: Tariff | null;        // parsed pricing, null when unknown
   related_url: string;
-  confirmed: boolean;
+  confirmed: boolean;           // seen by two feeds, or recently verified by one
   last_seen: string;            // ISO
   status: "active" | "inactive" | string;
+  statusUpdatedAt?: string;     // ISO, freshness of the live connector statuses
+  sources?: StationSourceId[];  // every feed that reported this station
+  sourceUUIDs?: string[];       // the UUIDs those feeds use, e.g. the OCPI location id live statuses carry
+  provenance?: Partial<Record<StationField, FieldProvenance>>;
+  reliability?: number;         // 0–1, from check-ins, reports and feed freshness
   distanceMeters?: number;
 };
 
@@ -33,7 +86,7 @@ export type StationFeature = {
   id: string;
   coord: { lat: number; lng: number };
   fastDC: boolean;              // any connection >= 50kW DC
-  connectorSet: Set<string>;
+  connectorSet: Set<ConnectorType>;
   townEn: string;
   operator: string;
   station: Station;
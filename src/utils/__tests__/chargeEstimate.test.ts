@@ -0,0 +1,75 @@
+import i18n from "../i18n";
+import { dcTaper, estimateCharge, formatDuration } from "../chargeEstimate";
+import { makeConnection } from "../../__fixtures__/stations";
+
+describe("dcTaper", () => {
+  it("holds full power to 50 %, then slows to half by 80 % and a trickle at full", () => {
+    expect(dcTaper(0)).toBe(1);
+    expect(dcTaper(49)).toBe(1);
+    expect(dcTaper(65)).toBeCloseTo(0.75);
+    expect(dcTaper(80)).toBeCloseTo(0.5);
+    expect(dcTaper(100)).toBeCloseTo(0.1);
+  });
+
+  it("never speeds up as the battery fills", () => {
+    for (let soc = 1; soc <= 100; soc++) {
+      expect(dcTaper(soc)).toBeLessThanOrEqual(dcTaper(soc - 1));
+    }
+  });
+});
+
+describe("estimateCharge", () => {
+  const input = { batteryKWh: 60, fromSoC: 20, toSoC: 80, maxACKW: 11, maxDCKW: 100 };
+
+  it("caps AC power at the on-board charger", () => {
+    const estimate = estimateCharge(makeConnection({ powerKW: 22 }), input, null);
+    expect(estimate.powerKW).toBe(11);
+    expect(estimate.cost).toBeNull();
+    // 36 kWh into the battery at 11 kW and 90 % efficiency
+    expect(estimate.minutes).toBeCloseTo((36 / 11 / 0.9) * 60);
+  });
+
+  it("caps DC power at the vehicle's DC limit", () => {
+    const ccs = makeConnection({ connectorType: "CCS2", current: "DC", powerKW: 150 });
+    const estimate = estimateCharge(ccs, { ...input, fromSoC: 20, toSoC: 50 }, null);
+    expect(estimate.isDC).toBe(true);
+    expect(estimate.powerKW).toBe(100);
+    // Below the taper: 18 kWh into the battery at 100 kW and 95 % efficiency
+    expect(estimate.minutes).toBeCloseTo((18 / 100 / 0.95) * 60);
+    expect(estimate.energyKWh).toBeCloseTo(18 / 0.95);
+
+    const uncapped = estimateCharge(ccs, { ...input, fromSoC: 20, toSoC: 50, maxDCKW: undefined }, null);
+    expect(uncapped.powerKW).toBe(150);
+  });
+
+  it("takes longer for the same energy above the DC taper", () => {
+    const ccs = makeConnection({ connectorType: "CCS2", current: "DC", powerKW: 100 });
+    const low = estimateCharge(ccs, { ...input, fromSoC: 20, toSoC: 50 }, null);
+    const high = estimateCharge(ccs, { ...input, fromSoC: 50, toSoC: 80 }, null);
+    expect(high.energyKWh).toBeCloseTo(low.energyKWh);
+    // Average taper over 50–80 % is 0.75, so it takes about a third longer
+    expect(high.minutes).toBeGreaterThan(low.minutes * 1.3);
+    expect(high.minutes).toBeLessThan(low.minutes * 1.4);
+  });
+
+  it("cannot finish on a connector with no power", () => {
+    expect(estimateCharge(makeConnection({ powerKW: 0 }), input, null).minutes).toBe(Infinity);
+  });
+});
+
+describe("formatDuration", () => {
+  afterEach(() => i18n.changeLanguage("en"));
+
+  it("formats minutes and hours in the app language", async () => {
+    expect(formatDuration(45, i18n.t)).toBe("45 min");
+    expect(formatDuration(65, i18n.t)).toBe("1 h 05 min");
+
+    await i18n.changeLanguage("el");
+    expect(formatDuration(45, i18n.t)).toBe("45 λεπ.");
+    expect(formatDuration(65, i18n.t)).toBe("1 ώ. 05 λεπ.");
+  });
+
+  it("shows a dash when the charge cannot finish", () => {
+    expect(formatDuration(Infinity, i18n.t)).toBe("—");
+  });
+});
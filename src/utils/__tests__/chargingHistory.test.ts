@@ -0,0 +1,70 @@
+import { monthlyTotals, sessionsToCsv, summarizeHistory } from "../chargingHistory";
+import type { ChargingSession } from "../../services";
+
+const session = (overrides: Partial<ChargingSession> = {}): ChargingSession => ({
+  id: "s1",
+  stationId: "1",
+  stationName: "Limassol Marina",
+  operator: "EAC",
+  startedAt: new Date(2025, 5, 10, 12),
+  kWh: 20,
+  cost: 10,
+  currency: "EUR",
+  source: "manual",
+  ...overrides,
+});
+
+describe("summarizeHistory", () => {
+  it("adds up energy and cost", () => {
+    const summary = summarizeHistory([session(), session({ id: "s2", kWh: 30, cost: 9 })]);
+    expect(summary).toMatchObject({ sessions: 2, kWh: 50, cost: 19 });
+    expect(summary.avgCostPerKWh).toBeCloseTo(19 / 50);
+  });
+
+  it("leaves sessions with an unknown cost out of the cost stats", () => {
+    const summary = summarizeHistory([session(), session({ id: "s2", kWh: 30, cost: undefined })]);
+    expect(summary).toMatchObject({ sessions: 2, kWh: 50, cost: 10, avgCostPerKWh: 0.5 });
+  });
+
+  it("has no cost when none is known", () => {
+    const summary = summarizeHistory([session({ cost: undefined, currency: undefined })]);
+    expect(summary).toMatchObject({ cost: null, avgCostPerKWh: null });
+  });
+
+  it("does not add other currencies to the euro totals", () => {
+    const summary = summarizeHistory([session(), session({ id: "s2", cost: 200, currency: "TRY" })]);
+    expect(summary).toMatchObject({ kWh: 40, cost: 10, avgCostPerKWh: 0.5 });
+  });
+
+  it("reads sessions saved without a currency as euros", () => {
+    expect(summarizeHistory([session({ currency: undefined })]).cost).toBe(10);
+  });
+});
+
+describe("monthlyTotals", () => {
+  it("totals each month, newest first", () => {
+    const months = monthlyTotals([
+      session(),
+      session({ id: "s2", startedAt: new Date(2025, 6, 2, 12), cost: undefined }),
+      session({ id: "s3", startedAt: new Date(2025, 5, 20, 12), kWh: 10, cost: 5 }),
+    ]);
+    expect(months).toEqual([
+      { month: "2025-07", sessions: 1, kWh: 20, cost: null, avgCostPerKWh: null },
+      { month: "2025-06", sessions: 2, kWh: 30, cost: 15, avgCostPerKWh: 0.5 },
+    ]);
+  });
+});
+
+describe("sessionsToCsv", () => {
+  it("writes one row per session and leaves unknown costs blank", () => {
+    const csv = sessionsToCsv([
+      session({ startedAt: new Date("2025-06-10T09:00:00Z"), stationName: 'Marina, "North"' }),
+      session({ startedAt: new Date("2025-06-11T09:00:00Z"), stationId: undefined, cost: undefined, currency: undefined }),
+    ]);
+    expect(csv.split("\n")).toEqual([
+      "date,station,station_id,operator,kwh,cost,cost_per_kwh,currency,source",
+      '2025-06-10T09:00:00.000Z,"Marina, ""North""",1,EAC,20.00,10.00,0.500,EUR,manual',
+      "2025-06-11T09:00:00.000Z,Limassol Marina,,EAC,20.00,,,,manual",
+    ]);
+  });
+});
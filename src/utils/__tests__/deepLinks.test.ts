@@ -0,0 +1,89 @@
+import { makeStation } from "../../__fixtures__/stations";
+
+// process.env turns undefined into "undefined"
+const setHost = (host?: string) => {
+  if (host == null) delete process.env.EXPO_PUBLIC_LINK_HOST;
+  else process.env.EXPO_PUBLIC_LINK_HOST = host;
+};
+
+// LINK_HOST is read when the module loads
+const load = (host?: string): typeof import("../deepLinks") => {
+  const previous = process.env.EXPO_PUBLIC_LINK_HOST;
+  setHost(host);
+  try {
+    let module: typeof import("../deepLinks") | undefined;
+    jest.isolateModules(() => {
+      module = require("../deepLinks");
+    });
+    return module!;
+  } finally {
+    setHost(previous);
+  }
+};
+
+describe("linkPath", () => {
+  const { linkPath } = load("evcy.app");
+
+  it("strips a known prefix", () => {
+    expect(linkPath("evcy://station/460135")).toBe("station/460135");
+    expect(linkPath("https://evcy.app/station/460135")).toBe("station/460135");
+    expect(linkPath("HTTPS://EVCY.APP/map?district=Paphos")).toBe("map?district=Paphos");
+    expect(linkPath("https://evcy.app")).toBe("");
+    expect(linkPath("https://evcy.app?dc=1")).toBe("?dc=1");
+  });
+
+  it("rejects hosts that only start with ours", () => {
+    expect(linkPath("https://evcy.app.evil.com/station/1")).toBeNull();
+    expect(linkPath("https://evcy.apps.com/station/1")).toBeNull();
+    expect(linkPath("https://evcy.app@evil.com/station/1")).toBeNull();
+    expect(linkPath("https://evcy.app:8443/station/1")).toBeNull();
+  });
+
+  it("rejects other links", () => {
+    expect(linkPath("https://example.com/station/1")).toBeNull();
+    expect(linkPath("http://evcy.app/station/1")).toBeNull();
+  });
+
+  it("only knows the app scheme without a link host", () => {
+    const { linkPath: schemeOnly } = load(undefined);
+    expect(schemeOnly("evcy://station/1")).toBe("station/1");
+    expect(schemeOnly("https://evcy.app/station/1")).toBeNull();
+  });
+});
+
+describe("stationLink", () => {
+  it("uses the link host when there is one", () => {
+    expect(load("evcy.app").stationLink("460135")).toBe("https://evcy.app/station/460135");
+    expect(load(undefined).stationLink("460135")).toBe("evcy://station/460135");
+  });
+});
+
+describe("mapLinkFilters", () => {
+  const { mapLinkFilters } = load(undefined);
+  const stations = [
+    makeStation({ district: { en: "Paphos", el: "Πάφος" }, operator: "EAC eCharge" }),
+    makeStation({ ID: "2", district: { en: "Limassol", el: "Λεμεσός" }, operator: "Lidl" }),
+  ];
+
+  it("matches districts and operators against the station data", () => {
+    expect(mapLinkFilters({ district: " paphos ", operator: "eac echarge" }, stations)).toEqual({
+      districts: new Set(["Paphos"]),
+      operators: new Set(["EAC eCharge"]),
+    });
+  });
+
+  it("sets only what the link carries", () => {
+    expect(mapLinkFilters({}, stations)).toEqual({});
+    expect(mapLinkFilters({ district: "Nicosia" }, stations)).toEqual({});
+  });
+
+  it("reads current flags and the power range", () => {
+    expect(mapLinkFilters({ dc: "1", minKW: "50" }, stations)).toEqual({
+      dcOnly: true,
+      acOnly: false,
+      powerRange: { minKW: 50, maxKW: Infinity },
+    });
+    expect(mapLinkFilters({ minKW: "100", maxKW: "50" }, stations)).toEqual({});
+    expect(mapLinkFilters({ minKW: "fast" }, stations)).toEqual({ powerRange: { minKW: 0, maxKW: Infinity } });
+  });
+});
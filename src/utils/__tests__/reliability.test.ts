@@ -0,0 +1,66 @@
+import { RELIABILITY_WINDOW_DAYS, stationReliability, type ReliabilityInput } from "../reliability";
+
+const NOW = Date.parse("2025-09-01T00:00:00Z");
+const daysAgo = (days: number) => new Date(NOW - days * 24 * 60 * 60 * 1000);
+
+const input = (overrides: Partial<ReliabilityInput> = {}): ReliabilityInput => ({
+  checkIns: [],
+  reports: [],
+  lastSeen: new Date(NOW).toISOString(),
+  confirmed: true,
+  ...overrides,
+});
+const checkIn = (success: boolean, days = 0) => ({ success, checkedInAt: daysAgo(days) });
+const report = (type: "brokenConnector" | "newStation", days = 0, status: "open" | "resolved" = "open") => ({
+  type,
+  status,
+  reportedAt: daysAgo(days).toISOString(),
+});
+
+describe("stationReliability", () => {
+  it("falls back to the listing alone without evidence", () => {
+    expect(stationReliability(input(), NOW)).toEqual({ score: 0.85, sampleSize: 0 });
+    expect(stationReliability(input({ confirmed: false }), NOW).score).toBeCloseTo(0.6);
+  });
+
+  it("lets a stale listing drift towards doubtful", () => {
+    const halfYear = stationReliability(input({ lastSeen: daysAgo(180).toISOString() }), NOW).score;
+    // Halfway from confirmed to stale after one listing half-life
+    expect(halfYear).toBeCloseTo(0.35 + (0.85 - 0.35) / 2);
+    expect(stationReliability(input({ lastSeen: daysAgo(3650).toISOString() }), NOW).score).toBeCloseTo(0.35, 2);
+    expect(stationReliability(input({ lastSeen: "not a date" }), NOW).score).toBeCloseTo(0.35);
+  });
+
+  it("weighs the listing as three check-ins", () => {
+    // (3 × 0.85 + 0) / (3 + 1)
+    expect(stationReliability(input({ checkIns: [checkIn(false)] }), NOW).score).toBeCloseTo(2.55 / 4);
+    // (3 × 0.85 + 1) / (3 + 1)
+    expect(stationReliability(input({ checkIns: [checkIn(true)] }), NOW).score).toBeCloseTo(3.55 / 4);
+  });
+
+  it("halves the weight of evidence every 30 days", () => {
+    const failedMonthAgo = stationReliability(input({ checkIns: [checkIn(false, 30)] }), NOW);
+    expect(failedMonthAgo.score).toBeCloseTo(2.55 / 3.5);
+    expect(failedMonthAgo.sampleSize).toBe(1);
+  });
+
+  it("ignores evidence outside the window and counts future timestamps as now", () => {
+    const old = stationReliability(input({ checkIns: [checkIn(false, RELIABILITY_WINDOW_DAYS + 1)] }), NOW);
+    expect(old).toEqual({ score: 0.85, sampleSize: 0 });
+    expect(stationReliability(input({ checkIns: [checkIn(false, -5)] }), NOW).score).toBeCloseTo(2.55 / 4);
+  });
+
+  it("counts open reports by type and skips resolved ones", () => {
+    expect(stationReliability(input({ reports: [report("brokenConnector")] }), NOW).score).toBeCloseTo(2.55 / 4);
+    expect(stationReliability(input({ reports: [report("brokenConnector", 0, "resolved")] }), NOW))
+      .toEqual({ score: 0.85, sampleSize: 0 });
+    expect(stationReliability(input({ reports: [report("newStation")] }), NOW).sampleSize).toBe(0);
+  });
+
+  it("lets plenty of recent evidence outweigh the listing", () => {
+    const working = Array.from({ length: 20 }, () => checkIn(true));
+    expect(stationReliability(input({ confirmed: false, checkIns: working }), NOW).score).toBeGreaterThan(0.9);
+    const broken = Array.from({ length: 20 }, () => checkIn(false));
+    expect(stationReliability(input({ checkIns: broken }), NOW).score).toBeLessThan(0.15);
+  });
+});
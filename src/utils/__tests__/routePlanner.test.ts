@@ -0,0 +1,119 @@
+import { planChargingStops, searchPlaces } from "../routePlanner";
+import type { RoutePath } from "../../api/routing";
+import { makeConnection, makeStation, makeVehicle } from "../../__fixtures__/stations";
+
+// Straight east-west route; stations are placed by the fraction of the way along it
+const ORIGIN = { latitude: 35, longitude: 33 };
+const DESTINATION = { latitude: 35, longitude: 34 };
+
+const route = (distanceMeters: number): RoutePath => ({
+  distanceMeters,
+  durationSeconds: (distanceMeters / 1000 / 70) * 3600,
+  points: [ORIGIN, DESTINATION],
+});
+
+const charger = (id: string, fraction: number, powerKW = 50) =>
+  makeStation({
+    ID: id,
+    latitude: 35,
+    longitude: 33 + fraction,
+    connections: [makeConnection({ connectorType: "CCS2", current: "DC", powerKW })],
+  });
+
+// Percent of battery used per meter, as the planner computes it
+const perMeter = (efficiency: number, battery: number) => efficiency / 100000 / battery * 100;
+
+describe("planChargingStops", () => {
+  const vehicle = makeVehicle({ batteryKWh: 60, efficiencyKWhPer100Km: 15 });
+
+  it("needs no stops when the battery covers the trip", () => {
+    const plan = planChargingStops(route(50000), [charger("a", 0.5)], { vehicle, startSoC: 80, arrivalSoC: 10 });
+    expect(plan.stops).toEqual([]);
+    expect(plan.feasible).toBe(true);
+    expect(plan.arrivalSoC).toBeCloseTo(80 - 50000 * perMeter(15, 60));
+  });
+
+  it("stops at the farthest reachable charger and charges only what is needed", () => {
+    const plan = planChargingStops(route(250000), [charger("near", 0.2), charger("far", 0.5)], {
+      vehicle,
+      startSoC: 50,
+      arrivalSoC: 10,
+    });
+    expect(plan.feasible).toBe(true);
+    expect(plan.stops.map((s) => s.station.ID)).toEqual(["far"]);
+    expect(plan.arrivalSoC).toBeCloseTo(10);
+    expect(plan.totalMinutes).toBeGreaterThan(plan.path.durationSeconds / 60);
+  });
+
+  it("prefers a faster charger over a slightly farther slow one", () => {
+    const plan = planChargingStops(route(250000), [charger("fast", 0.5, 150), charger("slow", 0.6, 22)], {
+      vehicle,
+      startSoC: 50,
+      arrivalSoC: 10,
+    });
+    expect(plan.stops[0].station.ID).toBe("fast");
+  });
+
+  it("is infeasible when no charger closes the gap", () => {
+    const plan = planChargingStops(route(300000), [], { vehicle, startSoC: 30, arrivalSoC: 10 });
+    expect(plan.feasible).toBe(false);
+    expect(plan.stops).toEqual([]);
+  });
+
+  describe("exact-fit trips", () => {
+    it("arrives without a stop when the charge covers the trip exactly", () => {
+      // 60 % of this battery is exactly the trip; the product rounds just below it
+      const car = makeVehicle({ batteryKWh: 50, efficiencyKWhPer100Km: 14.5 });
+      const distance = (70 - 10) / perMeter(14.5, 50);
+
+      const plan = planChargingStops(route(distance), [], { vehicle: car, startSoC: 70, arrivalSoC: 10 });
+      expect(plan.feasible).toBe(true);
+      expect(plan.stops).toEqual([]);
+      expect(plan.arrivalSoC).toBeCloseTo(10);
+    });
+
+    it.each([
+      [13, 40, 0.5],
+      [14.5, 50, 0.3],
+      [19.3, 64, 0.4],
+    ])("adds no top-up after charging exactly enough (%s kWh/100 km, %s kWh)", (efficiency, battery, fraction) => {
+      const car = makeVehicle({ batteryKWh: battery, efficiencyKWhPer100Km: efficiency });
+      const startSoC = 10.5 + fraction * 150000 * perMeter(efficiency, battery);
+
+      const plan = planChargingStops(route(150000), [charger("a", fraction), charger("b", 0.95)], {
+        vehicle: car,
+        startSoC,
+        arrivalSoC: 10,
+        chargeToSoC: 100,
+      });
+      expect(plan.feasible).toBe(true);
+      expect(plan.stops.map((s) => s.station.ID)).toEqual(["a"]);
+    });
+
+    it("is not flagged infeasible by rounding on the last leg", () => {
+      const car = makeVehicle({ batteryKWh: 50, efficiencyKWhPer100Km: 15 });
+      const plan = planChargingStops(route(150000), [charger("a", 0.4), charger("b", 0.95)], {
+        vehicle: car,
+        startSoC: 10.5 + 0.4 * 150000 * perMeter(15, 50),
+        arrivalSoC: 10,
+        chargeToSoC: 100,
+      });
+      expect(plan.feasible).toBe(true);
+      expect(plan.stops).toHaveLength(1);
+    });
+  });
+});
+
+describe("searchPlaces", () => {
+  it("finds towns, centred on their stations, before stations", () => {
+    const stations = [
+      makeStation({ ID: "1", latitude: 34.7, longitude: 33.0 }),
+      makeStation({ ID: "2", title: { en: "Limassol Marina", el: "Μαρίνα" }, latitude: 34.8, longitude: 33.2 }),
+    ];
+    const places = searchPlaces(stations, "limassol");
+
+    expect(places[0]).toMatchObject({ kind: "town", label: "Limassol" });
+    expect(places[0].latitude).toBeCloseTo(34.75);
+    expect(places[1]).toMatchObject({ kind: "station", stationId: "2" });
+  });
+});
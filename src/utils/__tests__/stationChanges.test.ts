@@ -0,0 +1,77 @@
+import { diffFingerprints, fingerprintStation, isStationOperational } from "../stationChanges";
+import { makeConnection, makeStation } from "../../__fixtures__/stations";
+
+const ccs = makeConnection({ type: "CCS (Type 2)", connectorType: "CCS2", current: "DC", powerKW: 50 });
+
+describe("isStationOperational", () => {
+  it("needs an active listing and one connection not reported broken", () => {
+    expect(isStationOperational(makeStation())).toBe(true);
+    expect(isStationOperational(makeStation({ status: "inactive" }))).toBe(false);
+    expect(isStationOperational(makeStation({ connections: [makeConnection({ status: "Not Operational" })] }))).toBe(false);
+    expect(isStationOperational(makeStation({ connections: [makeConnection({ liveStatus: "OutOfOrder" })] }))).toBe(false);
+    expect(isStationOperational(makeStation({
+      connections: [makeConnection({ liveStatus: "OutOfOrder" }), ccs],
+    }))).toBe(true);
+  });
+});
+
+describe("fingerprintStation", () => {
+  it("counts connectors per type and describes the tariff", () => {
+    const station = makeStation({
+      connections: [makeConnection({ quantity: 2 }), ccs, makeConnection({ quantity: 0 })],
+      tariff: { currency: "EUR", pricePerKWh: 0.45, sessionFee: 1, windows: [], raw: "" },
+    });
+    expect(fingerprintStation(station)).toEqual({
+      stationId: "1",
+      stationName: station.title.en,
+      operational: true,
+      connectors: { Type2Socket: 3, CCS2: 1 },
+      price: "0.45 EUR/kWh, 1 EUR/session",
+    });
+  });
+
+  it("falls back to the usage cost text, or no price", () => {
+    expect(fingerprintStation(makeStation({ usage_cost: " Free " })).price).toBe("Free");
+    expect(fingerprintStation(makeStation({ usage_cost: "" })).price).toBeNull();
+  });
+});
+
+describe("diffFingerprints", () => {
+  const before = fingerprintStation(makeStation({ usage_cost: "€0.40/kWh" }));
+  const base = { stationId: before.stationId, stationName: before.stationName };
+
+  it("has nothing to compare a first sighting against", () => {
+    expect(diffFingerprints(undefined, before)).toEqual([]);
+  });
+
+  it("finds no changes in an unchanged station", () => {
+    expect(diffFingerprints(before, { ...before })).toEqual([]);
+  });
+
+  it("reports a station going out of order and coming back", () => {
+    const broken = { ...before, operational: false };
+    expect(diffFingerprints(before, broken)).toEqual([{ ...base, kind: "outOfOrder" }]);
+    expect(diffFingerprints(broken, before)).toEqual([{ ...base, kind: "backInService" }]);
+  });
+
+  it("reports new connector types and more of an existing one, but not removals", () => {
+    const more = { ...before, connectors: { Type2Socket: 2, CCS2: 1 } };
+    expect(diffFingerprints(before, more)).toEqual([
+      { ...base, kind: "connectorsAdded", connectorsAdded: ["Type2Socket", "CCS2"] },
+    ]);
+    expect(diffFingerprints(more, before)).toEqual([]);
+  });
+
+  it("reports price changes but not a price appearing or vanishing", () => {
+    expect(diffFingerprints(before, { ...before, price: "€0.49/kWh" })).toEqual([
+      { ...base, kind: "priceChanged", price: { before: "€0.40/kWh", after: "€0.49/kWh" } },
+    ]);
+    expect(diffFingerprints(before, { ...before, price: null })).toEqual([]);
+    expect(diffFingerprints({ ...before, price: null }, before)).toEqual([]);
+  });
+
+  it("reports every change at once", () => {
+    const after = { ...before, operational: false, price: "€0.49/kWh" };
+    expect(diffFingerprints(before, after).map((c) => c.kind)).toEqual(["outOfOrder", "priceChanged"]);
+  });
+});
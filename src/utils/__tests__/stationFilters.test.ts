@@ -0,0 +1,114 @@
+import { filterStations, matchStation, matchedConnections, type StationFilterCriteria } from "../stationFilters";
+import { ANY_POWER } from "../power";
+import { CONNECTOR_TYPES } from "../connectors";
+import { makeConnection, makeStation, makeVehicle } from "../../__fixtures__/stations";
+
+const criteria = (overrides: Partial<StationFilterCriteria> = {}): StationFilterCriteria => ({
+  query: "",
+  connectorTypes: new Set(CONNECTOR_TYPES),
+  powerRange: ANY_POWER,
+  acOnly: true,
+  dcOnly: true,
+  onlyOperational: false,
+  districts: new Set(),
+  operators: new Set(),
+  compatibleOnly: false,
+  vehicle: null,
+  minReliability: 0,
+  ...overrides,
+});
+
+const ccs = makeConnection({
+  type: "CCS (Type 2)",
+  connectorType: "CCS2",
+  powerKW: 50,
+  current: "DC",
+});
+const type2 = makeConnection();
+
+describe("matchStation", () => {
+  it("matches every station with the default filters", () => {
+    const match = matchStation(makeStation(), criteria());
+    expect(match.matches).toBe(true);
+    expect(match.rejectedBy).toBeUndefined();
+  });
+
+  it("reports which connection satisfied the connection filters", () => {
+    const station = makeStation({ connections: [type2, ccs] });
+    const match = matchStation(station, criteria({ acOnly: false, dcOnly: true }));
+
+    expect(match.matches).toBe(true);
+    expect(match.connections.map((c) => c.rejectedBy)).toEqual(["current", undefined]);
+    expect(matchedConnections(match)).toEqual([ccs]);
+  });
+
+  it("needs one connection to pass every connection filter at once", () => {
+    // DC on one connector and 22 kW on another is not a 22 kW DC charger
+    const station = makeStation({ connections: [type2, ccs] });
+    const match = matchStation(station, criteria({ acOnly: false, dcOnly: true, powerRange: { minKW: 0, maxKW: 50 } }));
+
+    expect(match.matches).toBe(false);
+    expect(match.rejectedBy).toBe("connections");
+    expect(match.connections.map((c) => c.rejectedBy)).toEqual(["current", "power"]);
+  });
+
+  it("matches nothing with neither AC nor DC selected", () => {
+    const match = matchStation(makeStation(), criteria({ acOnly: false, dcOnly: false }));
+    expect(match.connections[0].rejectedBy).toBe("current");
+  });
+
+  it("filters by connector type and operational status", () => {
+    const broken = makeConnection({ status: "Not Operational" });
+    expect(matchStation(makeStation({ connections: [broken] }), criteria({ onlyOperational: true })).matches).toBe(false);
+    expect(matchStation(makeStation(), criteria({ connectorTypes: new Set(["CCS2"]) })).connections[0].rejectedBy)
+      .toBe("connectorType");
+  });
+
+  it("caps power at what the active vehicle can draw", () => {
+    const station = makeStation({ connections: [ccs] });
+    const vehicle = makeVehicle({ connectorTypes: ["CCS2"], maxDCKW: 40 });
+    const fast = criteria({ compatibleOnly: true, vehicle, powerRange: { minKW: 50, maxKW: Infinity } });
+
+    expect(matchStation(station, fast).connections[0].rejectedBy).toBe("power");
+    expect(matchStation(station, { ...fast, compatibleOnly: false }).matches).toBe(true);
+  });
+
+  it("rejects connectors the active vehicle cannot use", () => {
+    const vehicle = makeVehicle({ connectorTypes: ["CHAdeMO"] });
+    const match = matchStation(makeStation({ connections: [ccs] }), criteria({ compatibleOnly: true, vehicle }));
+    expect(match.connections[0].rejectedBy).toBe("vehicle");
+  });
+
+  it("treats empty district and operator sets as all", () => {
+    const station = makeStation();
+    expect(matchStation(station, criteria()).matches).toBe(true);
+    expect(matchStation(station, criteria({ districts: new Set(["Paphos"]) })).rejectedBy).toBe("district");
+    expect(matchStation(station, criteria({ districts: new Set(["Limassol"]) })).matches).toBe(true);
+    expect(matchStation(station, criteria({ operators: new Set(["Lidl"]) })).rejectedBy).toBe("operator");
+  });
+
+  it("hides stations below the minimum reliability but keeps unscored ones", () => {
+    const min = criteria({ minReliability: 0.7 });
+    expect(matchStation(makeStation({ reliability: 0.5 }), min).rejectedBy).toBe("reliability");
+    expect(matchStation(makeStation({ reliability: 0.9 }), min).matches).toBe(true);
+    expect(matchStation(makeStation(), min).matches).toBe(true);
+  });
+
+  it("searches title, address, town and operator case-insensitively", () => {
+    const station = makeStation();
+    expect(matchStation(station, criteria({ query: "test street" })).matches).toBe(true);
+    expect(matchStation(station, criteria({ query: "eac" })).matches).toBe(true);
+    expect(matchStation(station, criteria({ query: "larnaca" })).rejectedBy).toBe("query");
+  });
+});
+
+describe("filterStations", () => {
+  it("keeps only matching stations, in order", () => {
+    const dc = makeStation({ ID: "dc", connections: [ccs] });
+    const ac = makeStation({ ID: "ac", connections: [type2] });
+    const both = makeStation({ ID: "both", connections: [type2, ccs] });
+
+    const result = filterStations([dc, ac, both], criteria({ acOnly: false, dcOnly: true }));
+    expect(result.map((s) => s.ID)).toEqual(["dc", "both"]);
+  });
+});
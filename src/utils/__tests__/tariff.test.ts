@@ -0,0 +1,78 @@
+import { parseTariff, pricesAt, referenceCostPerKWh, sessionCost } from "../tariff";
+
+describe("parseTariff", () => {
+  it("returns null for missing or unknown pricing", () => {
+    expect(parseTariff(undefined)).toBeNull();
+    expect(parseTariff("Unknown")).toBeNull();
+    expect(parseTariff("Pay at location")).toBeNull();
+  });
+
+  it("parses per-kWh prices with session fees", () => {
+    expect(parseTariff("€0.35/kWh + €1 session fee")).toMatchObject({
+      currency: "EUR",
+      pricePerKWh: 0.35,
+      sessionFee: 1,
+      windows: [],
+    });
+  });
+
+  it("parses per-minute, hourly and idle prices", () => {
+    expect(parseTariff("0.10 €/min")?.pricePerMinute).toBeCloseTo(0.1);
+    expect(parseTariff("€6 per hour")?.pricePerMinute).toBeCloseTo(0.1);
+    expect(parseTariff("€0.40/kWh, idle fee €0.20/min")?.idleFeePerMinute).toBeCloseTo(0.2);
+  });
+
+  it("converts cents", () => {
+    expect(parseTariff("35c/kWh")?.pricePerKWh).toBeCloseTo(0.35);
+  });
+
+  it("treats a bare price as per kWh", () => {
+    expect(parseTariff("€0.45")?.pricePerKWh).toBe(0.45);
+  });
+
+  it("parses time-of-day windows", () => {
+    const tariff = parseTariff("08:00-22:00 €0.40/kWh; 22:00-08:00 €0.25/kWh");
+    expect(tariff?.windows).toEqual([
+      { start: "08:00", end: "22:00", pricePerKWh: 0.4 },
+      { start: "22:00", end: "08:00", pricePerKWh: 0.25 },
+    ]);
+  });
+
+  it("detects free charging, ignoring opening hours", () => {
+    expect(parseTariff("Free")).toMatchObject({ pricePerKWh: 0 });
+    expect(parseTariff("Free 08:00-20:00")).toMatchObject({ pricePerKWh: 0 });
+    expect(parseTariff("Free, 24/7")).toMatchObject({ pricePerKWh: 0 });
+    expect(parseTariff("Δωρεάν")).toMatchObject({ pricePerKWh: 0 });
+  });
+
+  it("does not read a decimal price as opening hours", () => {
+    expect(parseTariff("Free parking, €0.30/kWh")).toMatchObject({ pricePerKWh: 0.3 });
+    expect(parseTariff("Free parking, 0.30 EUR/kWh")?.pricePerKWh).toBe(0.3);
+  });
+
+  it("keeps the first of several prices of the same kind", () => {
+    expect(parseTariff("€0.30/kWh members, €0.45/kWh others")?.pricePerKWh).toBe(0.3);
+    expect(parseTariff("€1 session fee; €2 session fee")?.sessionFee).toBe(1);
+  });
+});
+
+describe("pricesAt", () => {
+  const tariff = parseTariff("€0.50/kWh; 22:00-06:00 €0.20/kWh")!;
+
+  it("uses the window in effect, wrapping past midnight", () => {
+    expect(pricesAt(tariff, new Date(2025, 0, 1, 23, 0)).pricePerKWh).toBe(0.2);
+    expect(pricesAt(tariff, new Date(2025, 0, 1, 5, 59)).pricePerKWh).toBe(0.2);
+    expect(pricesAt(tariff, new Date(2025, 0, 1, 12, 0)).pricePerKWh).toBe(0.5);
+  });
+});
+
+describe("sessionCost", () => {
+  it("adds the session fee, energy and time", () => {
+    const tariff = { currency: "EUR", pricePerKWh: 0.4, pricePerMinute: 0.05, sessionFee: 1, windows: [], raw: "" };
+    expect(sessionCost(tariff, 20, 30)).toBeCloseTo(1 + 8 + 1.5);
+  });
+
+  it("ranks unknown tariffs last", () => {
+    expect(referenceCostPerKWh(null)).toBe(Infinity);
+  });
+});
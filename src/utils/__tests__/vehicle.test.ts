@@ -0,0 +1,43 @@
+import { canUseConnection, effectivePowerKW, inletFits } from "../vehicle";
+import { makeConnection, makeVehicle } from "../../__fixtures__/stations";
+
+describe("inletFits", () => {
+  it("plugs a Type 2 inlet into sockets and tethered cables", () => {
+    expect(inletFits("Type2Socket", "Type2Socket")).toBe(true);
+    expect(inletFits("Type2Socket", "Type2Tethered")).toBe(true);
+    expect(inletFits("Type2Tethered", "Type2Socket")).toBe(true);
+  });
+
+  it("needs an exact match for other connectors", () => {
+    expect(inletFits("CCS2", "CCS2")).toBe(true);
+    expect(inletFits("CCS2", "CHAdeMO")).toBe(false);
+    expect(inletFits("Type1", "Type2Tethered")).toBe(false);
+  });
+});
+
+describe("canUseConnection", () => {
+  const vehicle = makeVehicle({ connectorTypes: ["CCS2", "Type2Socket"] });
+
+  it("accepts a tethered Type 2 cable for a Type 2 inlet", () => {
+    const tethered = makeConnection({ type: "Type 2 (Tethered Connector)", connectorType: "Type2Tethered" });
+    expect(canUseConnection(tethered, vehicle)).toBe(true);
+  });
+
+  it("rejects connectors the car has no inlet for", () => {
+    const chademo = makeConnection({ connectorType: "CHAdeMO", current: "DC", powerKW: 50 });
+    expect(canUseConnection(chademo, vehicle)).toBe(false);
+  });
+
+  it("rejects DC on an AC-only car", () => {
+    const ccs = makeConnection({ connectorType: "CCS2", current: "DC", powerKW: 50 });
+    expect(canUseConnection(ccs, makeVehicle({ maxDCKW: 0 }))).toBe(false);
+  });
+});
+
+describe("effectivePowerKW", () => {
+  it("caps rated power at the car's AC or DC limit", () => {
+    expect(effectivePowerKW(makeConnection({ powerKW: 22 }), makeVehicle({ maxACKW: 11 }))).toBe(11);
+    expect(effectivePowerKW(makeConnection({ current: "DC", powerKW: 150 }), makeVehicle({ maxDCKW: 100 }))).toBe(100);
+    expect(effectivePowerKW(makeConnection({ powerKW: 22 }))).toBe(22);
+  });
+});
@@ -0,0 +1,44 @@
+import type { TFunction } from "i18next";
+import type { LiveStatus, Station } from "../types/ocm";
+
+export type StationAvailability = {
+  status: LiveStatus;           // best status across connections
+  available: number;            // connections reported available
+  total: number;                // connections with a live status
+  updatedAt: Date;
+};
+
+// Same palette as the map marker pin
+export const LIVE_STATUS_COLORS: Record<LiveStatus, string> = {
+  Available: "#10b981",
+  Occupied: "#f59e0b",
+  OutOfOrder: "#ef4444",
+  Unknown: "#6b7280"
+};
+
+export const liveStatusLabelKey = (status: LiveStatus): string => `availability.${status}`;
+
+// Live availability of a station, null when no provider reported on it
+export function stationAvailability(station: Station): StationAvailability | null {
+  if (!station.statusUpdatedAt) return null;
+  const statuses = station.connections.map((c) => c.liveStatus).filter((s): s is LiveStatus => s != null);
+  if (!statuses.length) return null;
+
+  const available = statuses.filter((s) => s === "Available").length;
+  const status: LiveStatus = available > 0
+    ? "Available"
+    : statuses.includes("Occupied")
+      ? "Occupied"
+      : statuses.every((s) => s === "OutOfOrder") ? "OutOfOrder" : "Unknown";
+
+  return { status, available, total: statuses.length, updatedAt: new Date(station.statusUpdatedAt) };
+}
+
+// "just now", "5 min ago", "2 h ago", then the date
+export function formatUpdatedAgo(date: Date, t: TFunction, now: Date = new Date()): string {
+  const minutes = Math.floor((now.getTime() - date.getTime()) / 60000);
+  if (minutes < 1) return t("availability.justNow");
+  if (minutes < 60) return t("availability.minutesAgo", { count: minutes });
+  if (minutes < 24 * 60) return t("availability.hoursAgo", { count: Math.floor(minutes / 60) });
+  return date.toLocaleDateString();
+}
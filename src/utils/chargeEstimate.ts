@@ -0,0 +1,90 @@
+import type { TFunction } from "i18next";
+import type { Connection, Tariff } from "../types/ocm";
+import { sessionCost } from "./tariff";
+
+export type ChargeEstimateInput = {
+  batteryKWh: number;           // usable capacity
+  fromSoC: number;              // percent, 0–100
+  toSoC: number;                // percent, 0–100
+  maxACKW?: number;             // vehicle on-board charger limit
+  maxDCKW?: number;             // vehicle DC limit
+};
+
+export type ChargeEstimate = {
+  connection: Connection;
+  isDC: boolean;
+  powerKW: number;              // peak power the session can reach
+  energyKWh: number;            // drawn from the charger, losses included
+  minutes: number;
+  cost: number | null;          // null when the tariff is unknown
+};
+
+// Share of energy that reaches the battery
+const AC_EFFICIENCY = 0.9;
+const DC_EFFICIENCY = 0.95;
+
+/**
+ * Fraction of peak power a typical DC session sustains at a state of charge:
+ * flat to 50 %, down to half by 80 %, and a trickle near full
+ */
+export function dcTaper(soc: number): number {
+  if (soc < 50) return 1;
+  if (soc < 80) return 1 - ((soc - 50) / 30) * 0.5;
+  return 0.5 - ((soc - 80) / 20) * 0.4;
+}
+
+export const isDCConnection = (connection: Connection): boolean => connection.current.includes("DC");
+
+/**
+ * Estimate charge time, energy and cost on one connector
+ * @param connection Station connector
+ * @param input Battery size, state-of-charge window and vehicle limits
+ * @param tariff Station tariff, if known
+ * @param startAt Session start, for time-of-day prices
+ */
+export function estimateCharge(
+  connection: Connection,
+  input: ChargeEstimateInput,
+  tariff: Tariff | null,
+  startAt: Date = new Date()
+): ChargeEstimate {
+  const isDC = isDCConnection(connection);
+  const vehicleLimit = isDC ? input.maxDCKW : input.maxACKW;
+  const powerKW = Math.max(0, Math.min(connection.powerKW || 0, vehicleLimit ?? Infinity));
+
+  const from = Math.max(0, Math.min(100, input.fromSoC));
+  const to = Math.max(from, Math.min(100, input.toSoC));
+  const batteryEnergy = (input.batteryKWh * (to - from)) / 100;
+  const energyKWh = batteryEnergy / (isDC ? DC_EFFICIENCY : AC_EFFICIENCY);
+
+  // Integrate the curve in 1 % steps; AC stays flat
+  let hours = 0;
+  if (powerKW > 0) {
+    for (let soc = from; soc < to; soc += 1) {
+      const step = Math.min(1, to - soc);
+      const power = isDC ? powerKW * dcTaper(soc) : powerKW;
+      hours += (input.batteryKWh * step) / 100 / power;
+    }
+  }
+  const minutes = powerKW > 0 ? (hours * 60) / (isDC ? DC_EFFICIENCY : AC_EFFICIENCY) : Infinity;
+
+  return {
+    connection,
+    isDC,
+    powerKW,
+    energyKWh,
+    minutes,
+    cost: tariff && Number.isFinite(minutes) ? sessionCost(tariff, energyKWh, minutes, startAt) : null
+  };
+}
+
+// "45 min", "1 h 05 min"
+export function formatDuration(minutes: number, t: TFunction): string {
+  if (!Number.isFinite(minutes)) return "—";
+  const total = Math.max(1, Math.round(minutes));
+  const h = Math.floor(total / 60);
+  const m = total % 60;
+  return h > 0
+    ? t("estimator.durationHours", { hours: h, minutes: String(m).padStart(2, "0") })
+    : t("estimator.durationMinutes", { minutes: m });
+}
@@ -0,0 +1,133 @@
+import type { ChargingSession } from "../services";
+
+export type MonthlyTotals = {
+  month: string;                // "YYYY-MM", local time
+  sessions: number;
+  kWh: number;
+  cost: number | null;          // EUR, null when no session has a known cost
+  avgCostPerKWh: number | null; // over the sessions with a known cost
+};
+
+export type UsageCount = {
+  name: string;
+  sessions: number;
+  kWh: number;
+};
+
+export type HistorySummary = {
+  sessions: number;
+  kWh: number;
+  cost: number | null;
+  avgCostPerKWh: number | null;
+  co2SavedKg: number;
+  topStations: UsageCount[];
+  topOperators: UsageCount[];
+};
+
+// Average petrol car, and the Cyprus grid, which still runs mostly on oil
+const PETROL_L_PER_100KM = 6.5;
+const PETROL_KG_CO2_PER_L = 2.31;
+const GRID_KG_CO2_PER_KWH = 0.62;
+const DEFAULT_EFFICIENCY_KWH_PER_100KM = 17;
+
+const TOP_COUNT = 3;
+
+// Totals are in euros; sessions paid in another currency cannot be added up with them
+export const HISTORY_CURRENCY = "EUR";
+
+const monthKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+
+const sessionCurrency = (session: ChargingSession) => session.currency ?? HISTORY_CURRENCY;
+
+// Sessions with an unknown cost or another currency are left out of the cost totals
+const isPriced = (session: ChargingSession) =>
+  session.cost != null && sessionCurrency(session) === HISTORY_CURRENCY;
+
+function costTotals(sessions: ChargingSession[]): Pick<HistorySummary, "cost" | "avgCostPerKWh"> {
+  const priced = sessions.filter(isPriced);
+  if (priced.length === 0) return { cost: null, avgCostPerKWh: null };
+  const cost = priced.reduce((sum, s) => sum + (s.cost ?? 0), 0);
+  const kWh = priced.reduce((sum, s) => sum + s.kWh, 0);
+  return { cost, avgCostPerKWh: kWh > 0 ? cost / kWh : null };
+}
+
+/**
+ * CO2 avoided by driving on this energy instead of petrol. Negative when the
+ * grid emits more than the petrol car would have.
+ * @param kWh Energy charged
+ * @param efficiencyKWhPer100Km Vehicle consumption
+ */
+export function co2SavedKg(kWh: number, efficiencyKWhPer100Km: number = DEFAULT_EFFICIENCY_KWH_PER_100KM): number {
+  if (efficiencyKWhPer100Km <= 0) return 0;
+  const km = (kWh / efficiencyKWhPer100Km) * 100;
+  const petrolKg = (km / 100) * PETROL_L_PER_100KM * PETROL_KG_CO2_PER_L;
+  return petrolKg - kWh * GRID_KG_CO2_PER_KWH;
+}
+
+// Totals per calendar month, newest month first
+export function monthlyTotals(sessions: ChargingSession[]): MonthlyTotals[] {
+  const months = new Map<string, ChargingSession[]>();
+  for (const session of sessions) {
+    const key = monthKey(session.startedAt);
+    months.set(key, [...(months.get(key) ?? []), session]);
+  }
+  return [...months.entries()]
+    .map(([month, inMonth]) => ({
+      month,
+      sessions: inMonth.length,
+      kWh: inMonth.reduce((sum, s) => sum + s.kWh, 0),
+      ...costTotals(inMonth)
+    }))
+    .sort((a, b) => b.month.localeCompare(a.month));
+}
+
+function topBy(sessions: ChargingSession[], key: (s: ChargingSession) => string): UsageCount[] {
+  const counts = new Map<string, UsageCount>();
+  for (const session of sessions) {
+    const name = key(session).trim();
+    if (!name) continue;
+    const entry = counts.get(name) ?? { name, sessions: 0, kWh: 0 };
+    entry.sessions += 1;
+    entry.kWh += session.kWh;
+    counts.set(name, entry);
+  }
+  return [...counts.values()]
+    .sort((a, b) => b.sessions - a.sessions || b.kWh - a.kWh)
+    .slice(0, TOP_COUNT);
+}
+
+export function summarizeHistory(sessions: ChargingSession[], efficiencyKWhPer100Km?: number): HistorySummary {
+  const kWh = sessions.reduce((sum, s) => sum + s.kWh, 0);
+  return {
+    sessions: sessions.length,
+    kWh,
+    ...costTotals(sessions),
+    co2SavedKg: co2SavedKg(kWh, efficiencyKWhPer100Km),
+    topStations: topBy(sessions, (s) => s.stationName),
+    topOperators: topBy(sessions, (s) => s.operator)
+  };
+}
+
+// Quote a CSV field when it holds a separator, quote or line break
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function sessionsToCsv(sessions: ChargingSession[]): string {
+  const header = ["date", "station", "station_id", "operator", "kwh", "cost", "cost_per_kwh", "currency", "source"];
+  // Unknown costs stay blank rather than reading as free
+  const rows = sessions.map((s) => [
+    s.startedAt.toISOString(),
+    s.stationName,
+    s.stationId ?? "",
+    s.operator,
+    s.kWh.toFixed(2),
+    s.cost != null ? s.cost.toFixed(2) : "",
+    s.cost != null && s.kWh > 0 ? (s.cost / s.kWh).toFixed(3) : "",
+    s.cost != null ? sessionCurrency(s) : "",
+    s.source
+  ]);
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\n");
+}
@@ -0,0 +1,85 @@
+import type { MaterialCommunityIcons } from "@expo/vector-icons";
+import type { ConnectorType } from "../types/ocm";
+
+// Display order for filters and legends
+export const CONNECTOR_TYPES: ConnectorType[] = [
+  "CCS2",
+  "CCS1",
+  "CHAdeMO",
+  "Type2Socket",
+  "Type2Tethered",
+  "Type1",
+  "Schuko",
+  "NACS",
+  "GBT",
+  "Unknown"
+];
+
+// MaterialCommunityIcons glyph per connector
+export const CONNECTOR_ICONS: Record<ConnectorType, keyof typeof MaterialCommunityIcons.glyphMap> = {
+  CCS1: "ev-plug-ccs1",
+  CCS2: "ev-plug-ccs2",
+  CHAdeMO: "ev-plug-chademo",
+  Type1: "ev-plug-type1",
+  Type2Socket: "ev-plug-type2",
+  Type2Tethered: "ev-station",
+  Schuko: "power-socket-de",
+  NACS: "ev-plug-tesla",
+  GBT: "power-socket-jp",
+  Unknown: "power-plug"
+};
+
+// i18n key for the connector's display name
+export const connectorLabelKey = (type: ConnectorType): string => `connectors.${type}`;
+
+/**
+ * Map a free-text connector name from a data feed to the canonical taxonomy
+ * @param raw Connector name, e.g. "CCS (Type 2)" or "Type 2 (Tethered Connector)"
+ * @returns Canonical connector type, "Unknown" when nothing matches
+ */
+export const normalizeConnectorType = (raw: string): ConnectorType => {
+  // OCPI codes as stored by the OCPI adapter, e.g. "IEC_62196_T2/CABLE"
+  const [standard, format] = raw.split("/");
+  if (standard in OCPI_STANDARDS) return ocpiConnectorType(standard, format);
+
+  const s = raw.toLowerCase();
+
+  if (s.includes("ccs") || s.includes("combo")) {
+    return s.includes("type 1") || s.includes("sae") || s.includes("ccs1") || s.includes("combo 1")
+      ? "CCS1"
+      : "CCS2";
+  }
+  if (s.includes("chademo")) return "CHAdeMO";
+  if (s.includes("tesla") || s.includes("nacs") || s.includes("j3400")) return "NACS";
+  if (s.includes("gb/t") || s.includes("gbt")) return "GBT";
+  if (s.includes("schuko") || s.includes("cee 7/4") || s.includes("type f")) return "Schuko";
+  if (s.includes("type 1") || s.includes("j1772")) return "Type1";
+  if (s.includes("type 2") || s.includes("mennekes") || s.includes("iec 62196")) {
+    return s.includes("tethered") || s.includes("cable") ? "Type2Tethered" : "Type2Socket";
+  }
+  return "Unknown";
+};
+
+// OCPI 2.2 ConnectorType values
+const OCPI_STANDARDS: Record<string, ConnectorType> = {
+  IEC_62196_T1: "Type1",
+  IEC_62196_T1_COMBO: "CCS1",
+  IEC_62196_T2: "Type2Socket",
+  IEC_62196_T2_COMBO: "CCS2",
+  CHADEMO: "CHAdeMO",
+  DOMESTIC_F: "Schuko",
+  TESLA_R: "NACS",
+  TESLA_S: "NACS",
+  GBT_AC: "GBT",
+  GBT_DC: "GBT"
+};
+
+/**
+ * Map an OCPI connector to the canonical taxonomy
+ * @param standard OCPI ConnectorType, e.g. "IEC_62196_T2_COMBO"
+ * @param format OCPI ConnectorFormat, "SOCKET" or "CABLE"
+ */
+export const ocpiConnectorType = (standard: string, format?: string): ConnectorType => {
+  const type = OCPI_STANDARDS[standard] ?? "Unknown";
+  return type === "Type2Socket" && format === "CABLE" ? "Type2Tethered" : type;
+};
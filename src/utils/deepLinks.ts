@@ -0,0 +1,159 @@
+import { Linking } from "react-native";
+import {
+  getActionFromState,
+  getStateFromPath,
+  type LinkingOptions,
+  type NavigationAction,
+  type ParamListBase,
+  type PathConfigMap
+} from "@react-navigation/native";
+import type { Station } from "../types/ocm";
+import type { FiltersState } from "../store/filters";
+import type { PowerRange } from "./power";
+import { pick } from "./i18n";
+
+export const LINK_SCHEME = "evcy";
+
+// Host serving the universal/app links, e.g. "evcy.app"; without it only evcy:// links open the app
+export const LINK_HOST = process.env.EXPO_PUBLIC_LINK_HOST;
+
+export const LINK_PREFIXES = [
+  `${LINK_SCHEME}://`,
+  ...(LINK_HOST ? [`https://${LINK_HOST}`] : [])
+];
+
+// evcy://station/460135 and evcy://map?district=Paphos&dc=1&minKW=50. Links land
+// on top of the tabs, so back leads to the map.
+const linkingScreens: { initialRouteName: string; screens: PathConfigMap<any> } = {
+  initialRouteName: "Main",
+  screens: {
+    Main: {
+      screens: {
+        Map: "map"
+      }
+    },
+    Details: "station/:id"
+  }
+};
+
+// Query params a map link may carry; values arrive as strings
+export type MapLinkParams = {
+  district?: string;
+  operator?: string;
+  dc?: string;
+  ac?: string;
+  minKW?: string;
+  maxKW?: string;
+};
+
+// Links followed before sign-in wait here until the main stack is shown
+let pendingLink: string | null = null;
+
+/**
+ * Linking options for the NavigationContainer. Links that arrive while the
+ * login screens are shown are held instead of dropped.
+ * @param canOpenLinks Whether the main stack is mounted right now
+ */
+export function createLinking(canOpenLinks: () => boolean): LinkingOptions<ParamListBase> {
+  return {
+    prefixes: LINK_PREFIXES,
+    filter: (url) => linkPath(url) != null,
+    config: linkingScreens,
+    async getInitialURL() {
+      const url = await Linking.getInitialURL();
+      if (url && !canOpenLinks()) {
+        pendingLink = url;
+        return null;
+      }
+      return url;
+    },
+    subscribe(listener) {
+      const subscription = Linking.addEventListener("url", ({ url }) => {
+        if (canOpenLinks()) {
+          listener(url);
+        } else {
+          pendingLink = url;
+        }
+      });
+      return () => subscription.remove();
+    }
+  };
+}
+
+// Path after a known prefix, e.g. "station/460135"; null for links that are not ours.
+// The prefix must end where the host does, so https://evcy.app.example.com is not ours
+export function linkPath(url: string): string | null {
+  const prefix = LINK_PREFIXES.find((p) => {
+    if (!url.toLowerCase().startsWith(p.toLowerCase())) return false;
+    return p.endsWith("://") || /^([/?#]|$)/.test(url.slice(p.length));
+  });
+  if (!prefix) return null;
+  return url.slice(prefix.length).replace(/^\/+/, "");
+}
+
+/**
+ * Navigation action for a link, resolved against the same screens as the linking config
+ * @returns undefined for links that match no screen
+ */
+export function linkAction(url: string): NavigationAction | undefined {
+  const path = linkPath(url);
+  const state = path != null ? getStateFromPath(path, linkingScreens) : undefined;
+  return state ? getActionFromState(state, linkingScreens) : undefined;
+}
+
+// Hand over the link held during sign-in, once
+export function takePendingLink(): string | null {
+  const url = pendingLink;
+  pendingLink = null;
+  return url;
+}
+
+export function stationLink(stationId: string): string {
+  return LINK_HOST ? `https://${LINK_HOST}/station/${stationId}` : `${LINK_SCHEME}://station/${stationId}`;
+}
+
+const isFlag = (value?: string) => value === "1" || value === "true";
+
+const parseKW = (value: string | undefined, fallback: number) => {
+  const kw = value != null ? Number(value) : NaN;
+  return Number.isFinite(kw) && kw >= 0 ? kw : fallback;
+};
+
+/**
+ * Filters described by a map link. Districts and operators are matched against
+ * the station data, since links use English names and the filters the display ones.
+ * @param params Query params of the link
+ * @param stations Loaded stations
+ * @returns Only the filters the link sets
+ */
+export function mapLinkFilters(params: MapLinkParams, stations: Station[]): Partial<FiltersState> {
+  const filters: Partial<FiltersState> = {};
+
+  if (params.district) {
+    const wanted = params.district.trim().toLowerCase();
+    const station = stations.find((s) =>
+      s.district.en.trim().toLowerCase() === wanted || pick(s.district).trim().toLowerCase() === wanted
+    );
+    if (station) filters.districts = new Set([pick(station.district)]);
+  }
+
+  if (params.operator) {
+    const wanted = params.operator.trim().toLowerCase();
+    const station = stations.find((s) => s.operator.trim().toLowerCase() === wanted);
+    if (station) filters.operators = new Set([station.operator]);
+  }
+
+  const dc = isFlag(params.dc);
+  const ac = isFlag(params.ac);
+  if (dc || ac) {
+    filters.dcOnly = dc;
+    filters.acOnly = ac;
+  }
+
+  if (params.minKW != null || params.maxKW != null) {
+    const range: PowerRange = { minKW: parseKW(params.minKW, 0), maxKW: parseKW(params.maxKW, Infinity) };
+    if (range.minKW < range.maxKW) filters.powerRange = range;
+  }
+
+  return filters;
+}
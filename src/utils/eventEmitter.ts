@@ -26,4 +26,7 @@ export const eventEmitter = new EventEmitter();
 // Event types
 export const EVENTS = {
   USER_PREFERENCES_CHANGED: 'userPreferencesChanged',
+  GUEST_FAVORITES_CHANGED: 'guestFavoritesChanged',
+  NOTIFICATIONS_RECEIVED: 'notificationsReceived',
+  NOTIFICATIONS_READ: 'notificationsRead',
 } as const;
@@ -0,0 +1,34 @@
+// Power ranges: minKW inclusive, maxKW exclusive
+export type PowerRange = { minKW: number; maxKW: number };
+
+export const ANY_POWER: PowerRange = { minKW: 0, maxKW: Infinity };
+
+// Bucketed tiers shown as filter shortcuts; together they cover every value.
+// presetKW is the typical rating drawn on the tier's marker icon.
+export const POWER_TIERS: Array<PowerRange & { presetKW: number; color: string }> = [
+  { minKW: 0, maxKW: 22, presetKW: 7, color: "#93c5fd" },
+  { minKW: 22, maxKW: 50, presetKW: 22, color: "#3b82f6" },
+  { minKW: 50, maxKW: 100, presetKW: 50, color: "#8b5cf6" },
+  { minKW: 100, maxKW: Infinity, presetKW: 150, color: "#f97316" }
+];
+
+export const isPowerInRange = (powerKW: number, range: PowerRange): boolean =>
+  powerKW >= range.minKW && powerKW < range.maxKW;
+
+export const isAnyPower = (range: PowerRange): boolean =>
+  range.minKW <= 0 && range.maxKW === Infinity;
+
+export const isSamePowerRange = (a: PowerRange, b: PowerRange): boolean =>
+  a.minKW === b.minKW && a.maxKW === b.maxKW;
+
+/**
+ * Format a power range for filter labels
+ * @param range Power range in kW
+ * @returns e.g. "< 22 kW", "22–50 kW", "100+ kW"
+ */
+export const formatPowerRange = (range: PowerRange): string => {
+  if (isAnyPower(range)) return "0+ kW";
+  if (range.maxKW === Infinity) return `${range.minKW}+ kW`;
+  if (range.minKW <= 0) return `< ${range.maxKW} kW`;
+  return `${range.minKW}–${range.maxKW} kW`;
+};
@@ -0,0 +1,94 @@
+import type { CheckIn, StationReport, StationReportType } from "../services";
+
+export type ReliabilityInput = {
+  checkIns: Array<Pick<CheckIn, "success" | "checkedInAt">>;
+  reports: Array<Pick<StationReport, "type" | "status" | "reportedAt">>;
+  lastSeen: string;             // ISO, station last_seen
+  confirmed: boolean;
+};
+
+export type Reliability = {
+  score: number;                // 0–1
+  sampleSize: number;           // check-ins and reports that counted
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Evidence loses half its weight every month
+const HALF_LIFE_DAYS = 30;
+// Older events are not fetched and would weigh under 2 % anyway
+export const RELIABILITY_WINDOW_DAYS = 180;
+// A listing not seen by any feed for half a year says little either way
+const LISTING_HALF_LIFE_DAYS = 180;
+
+// The feed data counts as this many check-ins, so a single bad session
+// does not sink a station nobody else has visited
+const PRIOR_WEIGHT = 3;
+const PRIOR_CONFIRMED = 0.85;
+const PRIOR_UNCONFIRMED = 0.6;
+const PRIOR_STALE = 0.35;
+
+// Negative weight of an open report, relative to one failed check-in
+const REPORT_WEIGHTS: Record<StationReportType, number> = {
+  brokenConnector: 1,
+  blockedByICE: 0.5,
+  wrongPower: 0.25,
+  wrongLocation: 0.25,
+  priceChanged: 0.1,
+  newStation: 0
+};
+
+const toTime = (value: Date | string) => (value instanceof Date ? value.getTime() : Date.parse(value));
+
+// Weight of an event that happened at `time`; future timestamps count as now
+function decay(time: number, now: number, halfLifeDays: number): number {
+  if (!Number.isFinite(time)) return 0;
+  const ageDays = Math.max(0, now - time) / DAY_MS;
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+/**
+ * Score how likely a station is to work, from community evidence and the feeds.
+ * Pure: the same input and `now` always give the same score.
+ * @param input Check-ins, reports and the station's last_seen/confirmed
+ * @param now Reference time in ms, for decaying older events
+ * @returns Score between 0 and 1 and the number of events behind it
+ */
+export function stationReliability(input: ReliabilityInput, now: number = Date.now()): Reliability {
+  const horizon = now - RELIABILITY_WINDOW_DAYS * DAY_MS;
+  let positive = 0;
+  let negative = 0;
+  let sampleSize = 0;
+
+  for (const checkIn of input.checkIns) {
+    const time = toTime(checkIn.checkedInAt);
+    if (!(time >= horizon)) continue;
+    const weight = decay(time, now, HALF_LIFE_DAYS);
+    if (checkIn.success) positive += weight; else negative += weight;
+    sampleSize++;
+  }
+
+  for (const report of input.reports) {
+    const time = toTime(report.reportedAt);
+    if (report.status === "resolved" || !(time >= horizon) || REPORT_WEIGHTS[report.type] === 0) continue;
+    negative += decay(time, now, HALF_LIFE_DAYS) * REPORT_WEIGHTS[report.type];
+    sampleSize++;
+  }
+
+  // Prior from the feeds, drifting towards "doubtful" as the listing goes stale
+  const base = input.confirmed ? PRIOR_CONFIRMED : PRIOR_UNCONFIRMED;
+  const freshness = decay(Date.parse(input.lastSeen), now, LISTING_HALF_LIFE_DAYS);
+  const prior = PRIOR_STALE + (base - PRIOR_STALE) * freshness;
+
+  const score = (PRIOR_WEIGHT * prior + positive) / (PRIOR_WEIGHT + positive + negative);
+  return { score: Math.min(1, Math.max(0, score)), sampleSize };
+}
+
+// Thresholds offered by the "min reliability" filter; 0 means any
+export const RELIABILITY_PRESETS = [0, 0.5, 0.7, 0.9];
+
+export function reliabilityColor(score: number): string {
+  if (score >= 0.8) return "#10B981";
+  if (score >= 0.5) return "#F59E0B";
+  return "#EF4444";
+}
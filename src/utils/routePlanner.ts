@@ -0,0 +1,242 @@
+import type { Connection, Station } from "../types/ocm";
+import type { VehicleProfile } from "../services";
+import type { LatLng, RoutePath } from "../api/routing";
+import { haversineDistanceMeters } from "./geo";
+import { pick } from "./i18n";
+import { canUseConnection, effectivePowerKW } from "./vehicle";
+import { estimateCharge } from "./chargeEstimate";
+
+export type PlannerVehicle = Pick<
+  VehicleProfile,
+  "batteryKWh" | "efficiencyKWhPer100Km" | "connectorTypes" | "maxACKW" | "maxDCKW"
+>;
+
+// Used when the user has no vehicle on their profile
+export const TYPICAL_VEHICLE: PlannerVehicle = {
+  batteryKWh: 60,
+  efficiencyKWhPer100Km: 17,
+  connectorTypes: ["CCS2", "Type2Socket"],
+  maxACKW: 11,
+  maxDCKW: 100
+};
+
+export type RoutePlanInput = {
+  vehicle: PlannerVehicle;
+  startSoC: number;             // percent at departure
+  arrivalSoC: number;           // minimum percent at every stop and at the destination
+  chargeToSoC?: number;         // upper bound per stop, 80 by default
+  maxDetourMeters?: number;     // how far off the route a charger may be
+};
+
+export type ChargingStop = {
+  station: Station;
+  connection: Connection;
+  powerKW: number;              // what the vehicle can draw there
+  distanceMeters: number;       // from the origin, along the route
+  arrivalSoC: number;
+  departureSoC: number;
+  chargeMinutes: number;
+  cost: number | null;
+};
+
+export type RoutePlan = {
+  path: RoutePath;
+  stops: ChargingStop[];
+  arrivalSoC: number;           // at the destination
+  feasible: boolean;            // false when no reachable charger closes a gap
+  totalMinutes: number;         // driving plus charging
+};
+
+export type Place = LatLng & {
+  label: string;
+  kind: "town" | "station";
+  stationId?: string;
+};
+
+type Candidate = {
+  station: Station;
+  connection: Connection;
+  powerKW: number;
+  along: number;                // meters from the origin, by road
+  detour: number;               // meters off the route, one way
+};
+
+const MAX_STOPS = 12;
+// Percent of SoC below which a shortfall is rounding error, not a reason to stop
+const SOC_EPSILON = 1e-9;
+const USABLE_STATUSES = ["Operational", "Available"];
+
+// Local planar projection, accurate enough across an island
+const toXY = (p: LatLng, lat0: number) => ({
+  x: p.longitude * 111320 * Math.cos((lat0 * Math.PI) / 180),
+  y: p.latitude * 110540
+});
+
+// Nearest point of a polyline: distance along it and distance off it, in meters
+function projectOntoPath(point: LatLng, points: LatLng[]): { along: number; offset: number } {
+  const lat0 = points[0].latitude;
+  const p = toXY(point, lat0);
+  let best = { along: 0, offset: Infinity };
+  let travelled = 0;
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const a = toXY(points[i], lat0);
+    const b = toXY(points[i + 1], lat0);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const length = Math.hypot(dx, dy);
+    const t = length > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / (length * length))) : 0;
+    const offset = Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+    if (offset < best.offset) best = { along: travelled + t * length, offset };
+    travelled += length;
+  }
+  return best;
+}
+
+function polylineLength(points: LatLng[]): number {
+  let total = 0;
+  for (let i = 0; i < points.length - 1; i++) {
+    total += haversineDistanceMeters(points[i].latitude, points[i].longitude, points[i + 1].latitude, points[i + 1].longitude);
+  }
+  return total;
+}
+
+// Fastest usable connector of every station near the route
+function findCandidates(path: RoutePath, stations: Station[], vehicle: PlannerVehicle, maxDetour: number): Candidate[] {
+  // Projections are on the polyline; scale them to road distance
+  const scale = path.distanceMeters / Math.max(1, polylineLength(path.points));
+  const candidates: Candidate[] = [];
+
+  for (const station of stations) {
+    const usable = station.connections.filter(
+      (c) => USABLE_STATUSES.includes(c.status) && canUseConnection(c, vehicle)
+    );
+    if (!usable.length) continue;
+
+    const { along, offset } = projectOntoPath(station, path.points);
+    if (offset > maxDetour) continue;
+
+    const connection = usable.reduce((a, b) => (effectivePowerKW(b, vehicle) > effectivePowerKW(a, vehicle) ? b : a));
+    candidates.push({
+      station,
+      connection,
+      powerKW: effectivePowerKW(connection, vehicle),
+      along: along * scale,
+      detour: offset * scale
+    });
+  }
+  return candidates;
+}
+
+/**
+ * Choose charging stops along a route
+ * @param path Route from the routing backend
+ * @param stations Station dataset
+ * @param input Vehicle, state-of-charge targets and detour limit
+ * @returns Stops in driving order; `feasible` is false when the car cannot make it
+ */
+export function planChargingStops(path: RoutePath, stations: Station[], input: RoutePlanInput): RoutePlan {
+  const { vehicle, arrivalSoC } = input;
+  const chargeTo = input.chargeToSoC ?? 80;
+  const candidates = findCandidates(path, stations, vehicle, input.maxDetourMeters ?? 5000);
+
+  // Percent of battery per meter driven
+  const perMeter = vehicle.efficiencyKWhPer100Km / 100000 / vehicle.batteryKWh * 100;
+  const total = path.distanceMeters;
+
+  const stops: ChargingStop[] = [];
+  let position = 0;
+  let soc = input.startSoC;
+  let feasible = true;
+
+  while (soc - (total - position) * perMeter < arrivalSoC - SOC_EPSILON) {
+    const reach = (soc - arrivalSoC + SOC_EPSILON) / perMeter;
+    const reachable = candidates.filter((c) => c.along > position && c.along - position + c.detour <= reach);
+    if (!reachable.length || stops.length >= MAX_STOPS) {
+      feasible = false;
+      break;
+    }
+
+    // Go as far as possible, but not to a charger much slower than the best in reach
+    const fastest = Math.max(...reachable.map((c) => c.powerKW));
+    const next = reachable
+      .filter((c) => c.powerKW >= fastest * 0.5)
+      .reduce((a, b) => (b.along > a.along ? b : a));
+
+    const arrival = soc - (next.along - position + next.detour) * perMeter;
+    const needed = arrivalSoC + (total - next.along + next.detour) * perMeter;
+    const departure = Math.min(100, Math.max(arrival, Math.min(chargeTo, needed)));
+    if (departure <= arrival + SOC_EPSILON) {
+      feasible = false;
+      break;
+    }
+
+    const estimate = estimateCharge(
+      next.connection,
+      {
+        batteryKWh: vehicle.batteryKWh,
+        fromSoC: arrival,
+        toSoC: departure,
+        maxACKW: vehicle.maxACKW,
+        maxDCKW: vehicle.maxDCKW || undefined
+      },
+      next.station.tariff
+    );
+
+    stops.push({
+      station: next.station,
+      connection: next.connection,
+      powerKW: next.powerKW,
+      distanceMeters: next.along,
+      arrivalSoC: arrival,
+      departureSoC: departure,
+      chargeMinutes: estimate.minutes,
+      cost: estimate.cost
+    });
+
+    position = next.along;
+    soc = departure - next.detour * perMeter;
+  }
+
+  const chargeMinutes = stops.reduce((sum, s) => sum + s.chargeMinutes, 0);
+  return {
+    path,
+    stops,
+    arrivalSoC: soc - (total - position) * perMeter,
+    feasible,
+    totalMinutes: path.durationSeconds / 60 + chargeMinutes
+  };
+}
+
+// Towns (centred on their stations) and stations whose name matches the query
+export function searchPlaces(stations: Station[], query: string, limit = 8): Place[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return [];
+
+  const towns = new Map<string, { label: string; lat: number; lng: number; n: number }>();
+  for (const s of stations) {
+    const label = pick(s.town).trim();
+    if (!label) continue;
+    const t = towns.get(label) ?? { label, lat: 0, lng: 0, n: 0 };
+    t.lat += s.latitude;
+    t.lng += s.longitude;
+    t.n += 1;
+    towns.set(label, t);
+  }
+
+  const townPlaces: Place[] = [...towns.values()]
+    .filter((t) => t.label.toLowerCase().includes(q))
+    .map((t) => ({ label: t.label, kind: "town", latitude: t.lat / t.n, longitude: t.lng / t.n }));
+
+  const stationPlaces: Place[] = stations
+    .filter((s) => pick(s.title).toLowerCase().includes(q))
+    .map((s) => ({
+      label: pick(s.title),
+      kind: "station",
+      stationId: s.ID,
+      latitude: s.latitude,
+      longitude: s.longitude
+    }));
+
+  return [...townPlaces, ...stationPlaces].slice(0, limit);
+}
@@ -0,0 +1,84 @@
+import type { ConnectorType, Station } from "../types/ocm";
+
+// What alerts compare between two refreshes of a station, small enough to persist
+export type StationFingerprint = {
+  stationId: string;
+  stationName: string;
+  operational: boolean;
+  connectors: Partial<Record<ConnectorType, number>>; // count per connector type
+  price: string | null;         // comparable price description, null when unknown
+};
+
+export type StationChangeKind = "outOfOrder" | "backInService" | "connectorsAdded" | "priceChanged";
+
+export type StationChange = {
+  stationId: string;
+  stationName: string;
+  kind: StationChangeKind;
+  connectorsAdded?: ConnectorType[];
+  price?: { before: string; after: string };
+};
+
+const OUT_OF_ORDER_STATUS = /not operational|out of order|removed|faulted/i;
+
+// A station works when it is listed as active and any connection is not reported broken
+export function isStationOperational(station: Station): boolean {
+  if (station.status === "inactive") return false;
+  return station.connections.some(
+    (c) => c.liveStatus !== "OutOfOrder" && !OUT_OF_ORDER_STATUS.test(c.status)
+  );
+}
+
+function priceKey(station: Station): string | null {
+  const tariff = station.tariff;
+  if (tariff) {
+    const parts = [
+      tariff.pricePerKWh != null ? `${tariff.pricePerKWh} ${tariff.currency}/kWh` : null,
+      tariff.pricePerMinute != null ? `${tariff.pricePerMinute} ${tariff.currency}/min` : null,
+      tariff.sessionFee != null ? `${tariff.sessionFee} ${tariff.currency}/session` : null
+    ].filter((p): p is string => p != null);
+    if (parts.length) return parts.join(", ");
+  }
+  return station.usage_cost.trim() || null;
+}
+
+export function fingerprintStation(station: Station): StationFingerprint {
+  const connectors: Partial<Record<ConnectorType, number>> = {};
+  for (const c of station.connections) {
+    connectors[c.connectorType] = (connectors[c.connectorType] ?? 0) + Math.max(c.quantity, 1);
+  }
+  return {
+    stationId: station.ID,
+    stationName: station.title.en,
+    operational: isStationOperational(station),
+    connectors,
+    price: priceKey(station)
+  };
+}
+
+/**
+ * Changes between two fingerprints of the same station. A station seen for the
+ * first time has nothing to compare against and yields no changes.
+ * @param previous Fingerprint from the last run, if any
+ * @param next Fingerprint from the current data
+ */
+export function diffFingerprints(previous: StationFingerprint | undefined, next: StationFingerprint): StationChange[] {
+  if (!previous) return [];
+  const base = { stationId: next.stationId, stationName: next.stationName };
+  const changes: StationChange[] = [];
+
+  if (previous.operational && !next.operational) changes.push({ ...base, kind: "outOfOrder" });
+  if (!previous.operational && next.operational) changes.push({ ...base, kind: "backInService" });
+
+  const added = (Object.keys(next.connectors) as ConnectorType[]).filter(
+    (type) => (next.connectors[type] ?? 0) > (previous.connectors[type] ?? 0)
+  );
+  if (added.length) changes.push({ ...base, kind: "connectorsAdded", connectorsAdded: added });
+
+  // A price appearing or vanishing is a feed gap, not a price change
+  if (previous.price != null && next.price != null && previous.price !== next.price) {
+    changes.push({ ...base, kind: "priceChanged", price: { before: previous.price, after: next.price } });
+  }
+
+  return changes;
+}
@@ -0,0 +1,107 @@
+import type { FiltersState } from "../store/filters";
+import type { Connection, Station } from "../types/ocm";
+import { pick } from "./i18n";
+import { isPowerInRange } from "./power";
+import { canUseConnection, effectivePowerKW, type VehicleLimits } from "./vehicle";
+
+// The subset of the filters store that decides which stations are shown
+export type StationFilterCriteria = Pick<
+  FiltersState,
+  | "query" | "connectorTypes" | "powerRange" | "acOnly" | "dcOnly" | "onlyOperational" | "districts" | "operators"
+  | "compatibleOnly" | "vehicle" | "minReliability"
+>;
+
+export type ConnectionRejection = "current" | "vehicle" | "power" | "connectorType" | "status";
+export type StationRejection = "district" | "operator" | "reliability" | "connections" | "query";
+
+export type ConnectionMatch = {
+  index: number;
+  connection: Connection;
+  rejectedBy?: ConnectionRejection;
+};
+
+export type StationMatch = {
+  station: Station;
+  matches: boolean;
+  rejectedBy?: StationRejection;
+  connections: ConnectionMatch[];   // one entry per connection, in station order
+};
+
+// The car that caps matching and displayed power, when "compatible with my car" is on
+export function compatibleVehicle(
+  filters: Pick<StationFilterCriteria, "compatibleOnly" | "vehicle">
+): VehicleLimits | null {
+  return filters.compatibleOnly ? filters.vehicle : null;
+}
+
+export function matchConnection(
+  connection: Connection,
+  filters: StationFilterCriteria
+): ConnectionRejection | undefined {
+  // Current type filtering (AC/DC); with neither selected nothing matches
+  if (!filters.acOnly && !filters.dcOnly) return "current";
+  if (filters.dcOnly && !filters.acOnly && !connection.current.includes("DC")) return "current";
+  if (filters.acOnly && !filters.dcOnly && !connection.current.includes("AC")) return "current";
+
+  const vehicle = compatibleVehicle(filters);
+  if (vehicle && !canUseConnection(connection, vehicle)) return "vehicle";
+
+  // Power tiers apply to what the car can actually draw
+  if (!isPowerInRange(effectivePowerKW(connection, vehicle), filters.powerRange)) return "power";
+
+  if (filters.connectorTypes.size > 0 && !filters.connectorTypes.has(connection.connectorType)) {
+    return "connectorType";
+  }
+
+  if (filters.onlyOperational && connection.status !== "Operational" && connection.status !== "Available") {
+    return "status";
+  }
+
+  return undefined;
+}
+
+function searchHaystack(s: Station): string {
+  return [
+    s.ID, s.UUID,
+    pick(s.title), pick(s.address), pick(s.district),
+    s.postcode, s.operator, s.town.en
+  ].join(" ").toLowerCase();
+}
+
+// Evaluate every filter against a station. Connection-level criteria use AND
+// logic: a station matches only if one connection satisfies all of them.
+export function matchStation(station: Station, filters: StationFilterCriteria): StationMatch {
+  const connections = station.connections.map((connection, index) => ({
+    index,
+    connection,
+    rejectedBy: matchConnection(connection, filters)
+  }));
+  const reject = (rejectedBy: StationRejection): StationMatch => ({ station, matches: false, rejectedBy, connections });
+
+  // An empty district/operator set means "all"
+  if (filters.districts.size > 0) {
+    const districtName = pick(station.district).trim();
+    if (!districtName || !filters.districts.has(districtName)) return reject("district");
+  }
+  if (filters.operators.size > 0 && !filters.operators.has(station.operator)) return reject("operator");
+
+  // Stations without check-ins or reports have no score and are not hidden
+  if (filters.minReliability > 0 && station.reliability != null && station.reliability < filters.minReliability) {
+    return reject("reliability");
+  }
+
+  if (!connections.some((c) => !c.rejectedBy)) return reject("connections");
+
+  const q = filters.query.trim().toLowerCase();
+  if (q && !searchHaystack(station).includes(q)) return reject("query");
+
+  return { station, matches: true, connections };
+}
+
+export function filterStations<T extends Station>(stations: T[], filters: StationFilterCriteria): T[] {
+  return stations.filter((s) => matchStation(s, filters).matches);
+}
+
+export function matchedConnections(match: StationMatch): Connection[] {
+  return match.connections.filter((c) => !c.rejectedBy).map((c) => c.connection);
+}
@@ -0,0 +1,128 @@
+import type { Tariff, TariffWindow } from "../types/ocm";
+
+const CURRENCY_HINTS: Array<[RegExp, string]> = [
+  [/€|\beur\b|euro/, "EUR"],
+  [/£|\bgbp\b/, "GBP"],
+  [/\$|\busd\b/, "USD"]
+];
+
+const TIME_WINDOW = /(\d{1,2})[:.](\d{2})\s*[-–to]+\s*(\d{1,2})[:.](\d{2})/;
+// Opening hours next to "Free", e.g. "08:00-22:00" or "24/7"; never a price like "0.30"
+const HOURS = /\d{1,2}:\d{2}\s*(?:-|–|to)\s*\d{1,2}:\d{2}|\b24\/7\b/g;
+const AMOUNT = /(\d+(?:[.,]\d+)?)/;
+
+// Reference session used to rank tariffs of different shapes
+const REFERENCE_KWH = 20;
+const REFERENCE_MINUTES = 30;
+
+const hhmm = (h: string, m: string) => `${h.padStart(2, "0")}:${m}`;
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+};
+
+function parseAmount(clause: string): number | undefined {
+  const match = clause.match(AMOUNT);
+  if (!match) return undefined;
+  let amount = Number(match[1].replace(",", "."));
+  // "35c/kWh" or "35 cents"
+  if (/\d\s*(c\b|cents?)/.test(clause)) amount /= 100;
+  return Number.isFinite(amount) ? amount : undefined;
+}
+
+/**
+ * Leniently parse a free-text usage cost from the feed
+ * @param text e.g. "€0.35/kWh + €1 session fee", "Free", "08:00-22:00 €0.40/kWh"
+ * @returns Structured tariff, or null when the text carries no pricing
+ */
+export function parseTariff(text: string | null | undefined): Tariff | null {
+  const raw = (text ?? "").trim();
+  const lower = raw.toLowerCase();
+  if (!lower || lower === "unknown" || lower === "n/a") return null;
+
+  const currency = CURRENCY_HINTS.find(([re]) => re.test(lower))?.[1] ?? "EUR";
+
+  if (/\bfree\b|no charge|δωρεάν/.test(lower) && !AMOUNT.test(lower.replace(HOURS, ""))) {
+    return { currency, pricePerKWh: 0, windows: [], raw };
+  }
+
+  const tariff: Tariff = { currency, windows: [], raw };
+  let found = false;
+
+  for (const clause of lower.split(/,(?!\d)|[;+\n]|\bplus\b|\band\b/)) {
+    const window = clause.match(TIME_WINDOW);
+    const priceText = window ? clause.replace(TIME_WINDOW, "") : clause;
+    const amount = parseAmount(priceText);
+    if (amount == null) continue;
+
+    const perHour = /\/\s*h\b|per hour|\/hr|hourly/.test(priceText);
+    const perMinute = perHour ? amount / 60 : amount;
+
+    if (/idle|parking|blocking|overstay/.test(priceText)) {
+      tariff.idleFeePerMinute = perMinute;
+    } else if (window) {
+      const entry: TariffWindow = { start: hhmm(window[1], window[2]), end: hhmm(window[3], window[4]) };
+      if (/kwh/.test(priceText)) entry.pricePerKWh = amount;
+      else if (/min|\/\s*h\b|per hour|hourly/.test(priceText)) entry.pricePerMinute = perMinute;
+      else entry.pricePerKWh = amount;
+      tariff.windows.push(entry);
+    } else if (/kwh/.test(priceText)) {
+      // With several prices (members/others, AC/DC) the first listed is kept
+      if (tariff.pricePerKWh == null) tariff.pricePerKWh = amount;
+    } else if (/min\b|minute|per hour|\/\s*h\b|\/hr|hourly/.test(priceText)) {
+      if (tariff.pricePerMinute == null) tariff.pricePerMinute = perMinute;
+    } else if (/session|start|connection|flat|per charge|fee/.test(priceText)) {
+      if (tariff.sessionFee == null) tariff.sessionFee = amount;
+    } else if (tariff.pricePerKWh == null) {
+      // A bare price is almost always per kWh
+      tariff.pricePerKWh = amount;
+    } else {
+      continue;
+    }
+    found = true;
+  }
+
+  return found ? tariff : null;
+}
+
+// Energy and time prices in effect at the given moment
+export function pricesAt(tariff: Tariff, date: Date = new Date()): Pick<TariffWindow, "pricePerKWh" | "pricePerMinute"> {
+  const now = date.getHours() * 60 + date.getMinutes();
+  const active = tariff.windows.find((w) => {
+    const start = toMinutes(w.start);
+    const end = toMinutes(w.end);
+    // Windows may wrap past midnight, e.g. 22:00-06:00
+    return start <= end ? now >= start && now < end : now >= start || now < end;
+  });
+  return {
+    pricePerKWh: active?.pricePerKWh ?? tariff.pricePerKWh,
+    pricePerMinute: active?.pricePerMinute ?? tariff.pricePerMinute
+  };
+}
+
+/**
+ * Cost of a session under a tariff
+ * @param tariff Station tariff
+ * @param kWh Energy delivered
+ * @param minutes Time plugged in
+ * @param date When the session starts, for time-of-day windows
+ */
+export function sessionCost(tariff: Tariff, kWh: number, minutes: number, date: Date = new Date()): number {
+  const { pricePerKWh = 0, pricePerMinute = 0 } = pricesAt(tariff, date);
+  return (tariff.sessionFee ?? 0) + kWh * pricePerKWh + minutes * pricePerMinute;
+}
+
+// Effective price per kWh of a typical session, for "cheapest first" ordering
+export function referenceCostPerKWh(tariff: Tariff | null, date: Date = new Date()): number {
+  if (!tariff) return Infinity;
+  return sessionCost(tariff, REFERENCE_KWH, REFERENCE_MINUTES, date) / REFERENCE_KWH;
+}
+
+export function formatPrice(amount: number, currency: string, locale?: string): string {
+  try {
+    return new Intl.NumberFormat(locale, { style: "currency", currency, maximumFractionDigits: 2 }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
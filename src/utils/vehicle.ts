@@ -0,0 +1,37 @@
+import type { Connection, ConnectorType } from "../types/ocm";
+import type { VehicleProfile } from "../services";
+import { isDCConnection } from "./chargeEstimate";
+
+// What the matching engine needs to know about a car
+export type VehicleLimits = Pick<VehicleProfile, "connectorTypes" | "maxACKW" | "maxDCKW">;
+
+// A Type 2 inlet takes the station's tethered cable and the driver's own cable in a socket alike
+const TYPE2: ConnectorType[] = ["Type2Socket", "Type2Tethered"];
+
+/**
+ * Whether a car inlet accepts a station connector
+ * @param inlet Connector type on the vehicle
+ * @param connector Connector type on the station
+ */
+export function inletFits(inlet: ConnectorType, connector: ConnectorType): boolean {
+  return inlet === connector || (TYPE2.includes(inlet) && TYPE2.includes(connector));
+}
+
+// Whether the car can physically charge on a connection
+export function canUseConnection(connection: Connection, vehicle: VehicleLimits): boolean {
+  if (!vehicle.connectorTypes.some((inlet) => inletFits(inlet, connection.connectorType))) return false;
+  return isDCConnection(connection) ? vehicle.maxDCKW > 0 : vehicle.maxACKW > 0;
+}
+
+/**
+ * Power a connection can actually deliver
+ * @param connection Station connector
+ * @param vehicle Car whose AC/DC limit caps the rated power, if any
+ * @returns kW, e.g. 50 for a 150 kW charger and a car that tops out at 50
+ */
+export function effectivePowerKW(connection: Connection, vehicle?: VehicleLimits | null): number {
+  const rated = connection.powerKW || 0;
+  if (!vehicle) return rated;
+  const limit = isDCConnection(connection) ? vehicle.maxDCKW : vehicle.maxACKW;
+  return limit > 0 ? Math.min(rated, limit) : rated;
+}